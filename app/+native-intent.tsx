@@ -0,0 +1,12 @@
+// File aperti dalla share sheet / app File arrivano come URL file:// o content://:
+// li passa alla schermata di import invece di cercare una route con quel path.
+export function redirectSystemPath({ path }: { path: string; initial: boolean }) {
+  try {
+    if (/^(file|content):\/\//i.test(path)) {
+      return `/import?uri=${encodeURIComponent(path)}`;
+    }
+    return path;
+  } catch {
+    return "/";
+  }
+}
@@ -0,0 +1,91 @@
+import * as FileSystem from "expo-file-system/legacy";
+import { router, useLocalSearchParams } from "expo-router";
+import { StatusBar } from "expo-status-bar";
+import React, { useEffect, useMemo, useState } from "react";
+import { ActivityIndicator, Alert, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { Card, PillButton } from "@/components/controls";
+import { getUi, ThemeName } from "@/constants/palette";
+import { createStyles } from "@/constants/styles";
+import { importFramemarkSession } from "@/lib/formats/framemark";
+import { getTheme } from "@/lib/prefs";
+import { setActiveSessionId } from "@/lib/session";
+
+/* ---------- Import di un file .framemark.json aperto da fuori ---------- */
+
+export default function ImportScreen() {
+  const { uri } = useLocalSearchParams<{ uri?: string }>();
+  const [theme, setTheme] = useState<ThemeName>("dark");
+  const ui = useMemo(() => getUi(theme), [theme]);
+  const styles = useMemo(() => createStyles(ui), [ui]);
+  const [errors, setErrors] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    getTheme().then(setTheme);
+  }, []);
+
+  useEffect(() => {
+    if (!uri) {
+      router.dismissTo("/");
+      return;
+    }
+    let mounted = true;
+    (async () => {
+      try {
+        const text = await FileSystem.readAsStringAsync(uri);
+        const { meta, errors: problems } = await importFramemarkSession(text);
+        if (!mounted) return;
+        if (!meta) {
+          setErrors(problems);
+          return;
+        }
+        await setActiveSessionId(meta.id);
+        const open = () => router.dismissTo({ pathname: "/", params: { session: meta.id } });
+        if (problems.length === 0) return open();
+        // markers o eventi EDL scartati: va detto prima di aprire la sessione
+        Alert.alert(
+          "Import",
+          `Sessione "${meta.title}" importata con ${meta.markerCount} markers.\n\n${problems.join("\n")}`,
+          [{ text: "OK", onPress: open }],
+          { cancelable: false }
+        );
+      } catch {
+        if (mounted) setErrors(["Impossibile leggere il file."]);
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [uri]);
+
+  return (
+    <SafeAreaView style={styles.screen}>
+      <StatusBar style={theme === "dark" ? "light" : "dark"} />
+      <View style={styles.content}>
+        <Card styles={styles}>
+          <Text style={styles.sectionTitle}>Importa sessione</Text>
+          {errors ? (
+            <>
+              {errors.map((e) => (
+                <Text key={e} style={styles.help}>
+                  {e}
+                </Text>
+              ))}
+              <PillButton
+                styles={styles}
+                label="Torna all'app"
+                onPress={() => router.dismissTo("/")}
+                variant="primary"
+                style={{ marginTop: 12 }}
+                haptic="light"
+              />
+            </>
+          ) : (
+            <ActivityIndicator color={ui.primary} style={{ marginTop: 12 }} />
+          )}
+        </Card>
+      </View>
+    </SafeAreaView>
+  );
+}
@@ -1,16 +1,17 @@
-import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as Clipboard from "expo-clipboard";
 import * as FileSystem from "expo-file-system/legacy";
-import * as Haptics from "expo-haptics";
 import * as Print from "expo-print";
+import { router, useFocusEffect, useLocalSearchParams } from "expo-router";
 import * as Sharing from "expo-sharing";
 import * as SplashScreen from 'expo-splash-screen';
 import { StatusBar } from "expo-status-bar";
 import {
   ArrowCounterClockwise,
-  ArrowLeft,
+  ArrowUUpLeft,
+  ArrowUUpRight,
   DownloadSimple,
   FastForward,
+  Folders,
   Gear,
   House,
   MapPin,
@@ -22,13 +23,13 @@ import {
   Stop as StopIcon,
   Trash
 } from "phosphor-react-native";
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   Alert,
   Animated,
+  AppState,
   Dimensions,
   Easing,
-  FlatList,
   Image,
   Modal,
   Platform,
@@ -39,440 +40,135 @@ import {
   Text,
   TextInput,
   TouchableOpacity,
-  Vibration,
   View
 } from "react-native";
 import { SafeAreaView, useSafeAreaInsets } from "react-native-safe-area-context";
+
+import { Card, Divider, doHaptic, IconButton, IconNudge, PillButton } from "@/components/controls";
+import { UndoToast } from "@/components/undo-toast";
+import { getUi, ThemeName } from "@/constants/palette";
+import { createStyles } from "@/constants/styles";
+import { useUndoHistory } from "@/hooks/use-undo-history";
+import {
+  DEFAULT_CATEGORIES,
+  findCategory,
+  MARKER_COLORS,
+  MarkerCategory,
+} from "@/lib/categories";
+import { EdlData, formatShot, shotAt, sourceTimecode } from "@/lib/edl";
+import {
+  directoryFiles,
+  directoryLabel,
+  downloadFile,
+  fileExists,
+  nextFreeFileName,
+  pickImageDataUri,
+  printHtml,
+  writeToDirectory,
+} from "@/lib/files";
+import {
+  DEFAULT_FILENAME_TEMPLATE,
+  renderFileName,
+  sanitizeFileName,
+} from "@/lib/filenames";
+import { buildAvidMarkers } from "@/lib/formats/avid";
+import { ExportContext } from "@/lib/formats/common";
+import { buildAudacityLabels } from "@/lib/formats/audacity";
+import { buildFfmetadata, buildYoutubeChapters } from "@/lib/formats/chapters";
+import {
+  buildCsv,
+  CSV_COLUMNS,
+  CSV_DELIMITERS,
+  CsvColumn,
+  CsvOptions,
+  DEFAULT_CSV_OPTIONS,
+} from "@/lib/formats/csv";
+import { buildFcpxml } from "@/lib/formats/fcpxml";
+import {
+  buildFramemarkJson,
+  FRAMEMARK_EXTENSION,
+  FRAMEMARK_UTI,
+} from "@/lib/formats/framemark";
+import { buildOtio } from "@/lib/formats/otio";
+import { buildPremiereCsv, buildPremiereXml } from "@/lib/formats/premiere";
+import { buildProToolsMarkers } from "@/lib/formats/protools";
+import { buildReaperCsv } from "@/lib/formats/reaper";
+import {
+  buildReportHtml,
+  DEFAULT_REPORT_TEMPLATE,
+  REPORT_COLUMNS,
+  ReportColumn,
+  ReportTemplate,
+  reportPageSize,
+} from "@/lib/formats/report";
+import { buildResolveEdl } from "@/lib/formats/resolve";
+import { buildSubtitles, DEFAULT_CUE_SECONDS, SubtitleFormat } from "@/lib/formats/subtitles";
+import { buildMarkersText } from "@/lib/formats/text";
+import { buildXlsx, XLSX_MIME_TYPE, XLSX_UTI } from "@/lib/formats/xlsx";
+import {
+  durationToTimecode,
+  formatMarkerTime,
+  isRange,
+  MARKER_STATUS_LABELS,
+  markerOut,
+} from "@/lib/markers";
+import {
+  getAutoRename,
+  getCueSeconds,
+  getExportDirectory,
+  getFileNameTemplate,
+  getLastReportTemplateId,
+  getReportTemplates,
+  getReviewer,
+  getTheme,
+  getTourDone,
+  saveReportTemplates,
+  setLastReportTemplateId,
+  setTourDone,
+} from "@/lib/prefs";
+import {
+  CaptureMode,
+  emptySnapshot,
+  getSessionMeta,
+  loadSession,
+  Marker,
+  MarkerStatus,
+  PreRoll,
+  resolveSession,
+  saveSession,
+  SESSION_SAVE_DEBOUNCE_MS,
+  SessionMeta,
+  SessionSnapshot,
+  SortMode,
+} from "@/lib/session";
+import {
+  DEFAULT_RATE,
+  FrameRate,
+  framesForElapsed,
+  framesToTimecode,
+  rateLabel,
+  secondsToFrames,
+  timebase,
+  timecodeToFrames,
+} from "@/lib/timecode";
+import { base64ToBytes, bytesToBase64 } from "@/lib/zip";
 // Keep splash visible until app is ready
 SplashScreen.preventAutoHideAsync().catch(()=>{});
 
-type Marker = {
-  id: number;
-  frames: number;
-  comment: string;
-};
 const SCREEN_W = Dimensions.get("window").width;
 
-const TOUR_FIRST_RUN_KEY = "framemark:tutorialDone";
-
-/* ---------- Timecode helpers ---------- */
-
-const framesToTimecode = (frames: number, fps: number) => {
-  const f = Math.max(0, frames);
-  const ff = f % fps;
-  const totalSeconds = Math.floor(f / fps);
-  const ss = totalSeconds % 60;
-  const totalMinutes = Math.floor(totalSeconds / 60);
-  const mm = totalMinutes % 60;
-  const hh = Math.floor(totalMinutes / 60);
-
-  return `${hh.toString().padStart(2, "0")}:${mm
-    .toString()
-    .padStart(2, "0")}:${ss.toString().padStart(2, "0")}:${ff
-    .toString()
-    .padStart(2, "0")}`;
-};
-
-const timecodeToFrames = (tc: string, fps: number) => {
-  const p = tc.split(":").map(Number);
-  if (p.length !== 4 || p.some(isNaN)) return 0;
-  const [h, m, s, f] = p;
-  return (h * 3600 + m * 60 + s) * fps + f;
-};
-
-const framesToSeconds = (frames: number, fps: number) => frames / fps;
-const secondsToFrames = (seconds: number, fps: number) =>
-  Math.round(seconds * fps);
-
-
-/* ---------- Light UI helpers ---------- */
-
-type ThemeName = "light" | "dark";
-
-const PALETTE = {
-  light: {
-    bg: "#FFFFFF",
-    card: "#FFFFFF",
-    text: "#0B1220",
-    subtext: "#667085",
-    border: "rgba(15, 23, 42, 0.10)",
-    divider: "rgba(15, 23, 42, 0.08)",
-    surface: "#F6F7FB",
-    primary: "#E6B94A",
-    danger: "#EF4444",
-    modal: "#FFFFFF",
-    inputBg: "#FFFFFF",
-    summaryBg: "rgba(230, 185, 74, 0.10)",
-    summaryBorder: "rgba(230, 185, 74, 0.20)",
-    overlay: "rgba(0,0,0,0.28)",
-    placeholder: "rgba(15, 23, 42, 0.35)",
-  },
-  dark: {
-    bg: "#000000",
-    card: "#0A0A0A",
-    text: "#FFFFFF",
-    subtext: "#B3B3B3",
-    border: "rgba(255,255,255,0.12)",
-    divider: "rgba(255,255,255,0.08)",
-    surface: "#121212",
-    primary: "#E3B74A", // golden amber
-    summaryBg: "rgba(245, 200, 76, 0.18)",
-    summaryBorder: "rgba(227, 183, 74, 0.35)",
-    danger: "#EF4444",
-    modal: "#0A0A0A",
-    inputBg: "#0E0E0E",
-    overlay: "rgba(0,0,0,0.7)",
-    placeholder: "rgba(255,255,255,0.35)",
-  },
-} as const;
-
-const getUi = (theme: ThemeName) => PALETTE[theme];
-
-
-function Card({
-  children,
-  style,
-  styles,
-}: {
-  children: React.ReactNode;
-  style?: any;
-  styles: any;
-}) {
-  return <View style={[styles.card, style]}>{children}</View>;
-}
-
-function PillButton({
-  label,
-  leftIcon,
-  onPress,
-  variant = "secondary",
-  disabled,
-  style,
-  styles,
-  haptic = "none",
-}: {
-  label: string;
-  leftIcon?: React.ReactNode;
-  onPress: () => void;
-  variant?: "primary" | "secondary" | "danger";
-  disabled?: boolean;
-  style?: any;
-  styles: any;
-  haptic?: HapticLevel;
-}) {
-  const scale = useRef(new Animated.Value(1)).current;
-
-  const pressIn = () => {
-    Animated.spring(scale, {
-      toValue: 0.97,
-      useNativeDriver: true,
-      speed: 28,
-      bounciness: 0,
-    }).start();
-  };
-
-  const pressOut = () => {
-    Animated.spring(scale, {
-      toValue: 1,
-      useNativeDriver: true,
-      speed: 28,
-      bounciness: 0,
-    }).start();
-  };
-
-  const handlePress = async () => {
-    if (disabled) return;
-    await doHaptic(haptic);
-    onPress();
-  };
-
-  // Mantiene compatibilità con l'uso attuale: molti bottoni passano style={{flex:1}}
-  const { flex, ...restStyle } = style || {};
-
-  return (
-    <Pressable
-      onPressIn={pressIn}
-      onPressOut={pressOut}
-      onPress={handlePress}
-      disabled={disabled}
-      style={flex !== undefined ? { flex } : undefined}
-    >
-      <Animated.View
-        style={[
-          styles.pillBtn,
-          variant === "primary" && styles.pillPrimary,
-          variant === "danger" && styles.pillDanger,
-          disabled && { opacity: 0.55 },
-          restStyle,
-          { transform: [{ scale }] },
-        ]}
-      >
-        <View style={{ flexDirection: "row", alignItems: "center", gap: 8 }}>
-          {leftIcon ? <View style={{ marginTop: 1 }}>{leftIcon}</View> : null}
-          <Text
-            style={[
-              styles.pillText,
-              variant === "primary" && styles.pillTextOnPrimary,
-              variant === "danger" && styles.pillTextDanger,
-            ]}
-          >
-            {label}
-          </Text>
-        </View>
-      </Animated.View>
-    </Pressable>
-  );
-}
-
-function IconButton({
-  icon,
-  onPress,
-  variant = "secondary",
-  disabled,
-  size = 56,
-  styles,
-  haptic = "light",
-  flat = false,
-}: {
-  icon: React.ReactNode;
-  onPress: () => void;
-  variant?: "primary" | "secondary" | "danger";
-  disabled?: boolean;
-  size?: number;
-  styles: any;
-  haptic?: HapticLevel;
-  flat?: boolean;
-}) {
-  const scale = useRef(new Animated.Value(1)).current;
-
-  const pressIn = () => {
-    Animated.spring(scale, {
-      toValue: 0.95,
-      useNativeDriver: true,
-      speed: 28,
-      bounciness: 0,
-    }).start();
-  };
-
-  const pressOut = () => {
-    Animated.spring(scale, {
-      toValue: 1,
-      useNativeDriver: true,
-      speed: 28,
-      bounciness: 0,
-    }).start();
-  };
-
-  const handlePress = async () => {
-    if (disabled) return;
-    await doHaptic(haptic);
-    onPress();
-  };
-
-  return (
-    <Pressable onPressIn={pressIn} onPressOut={pressOut} onPress={handlePress} disabled={disabled}>
-      <Animated.View
-        style={[
-          styles.iconBtn,
-          flat && styles.bottomIconBtn,
-          variant === "primary" && styles.iconBtnPrimary,
-          variant === "danger" && styles.iconBtnDanger,
-          disabled && { opacity: 0.55 },
-          { width: size, height: size, transform: [{ scale }] },
-        ]}
-      >
-        {icon}
-      </Animated.View>
-    </Pressable>
-  );
-}
-
-function IconNudge({
-  icon,
-  label,
-  onPress,
-  styles,
-  haptic = "light",
-}: {
-  icon: React.ReactNode;
-  label: string;
-  onPress: () => void;
-  styles: any;
-  haptic?: HapticLevel;
-}) {
-  return (
-    <View style={styles.nudgeWrap}>
-      <IconButton
-        styles={styles}
-        size={44}
-        icon={icon}
-        onPress={onPress}
-        haptic={haptic}
-      />
-      <Text style={styles.nudgeLabel}>{label}</Text>
-    </View>
-  );
-}
-
-
-function Divider({ style, styles }: { style?: any; styles: any }) {
-  return <View style={[styles.divider, style]} />;
-}
-
-
-
-/* ---------- Motion & Haptics helpers ---------- */
-
-type HapticLevel = "none" | "light" | "medium";
-
-const doHaptic = async (level: HapticLevel) => {
-  if (level === "none") return;
-  try {
-    if (level === "light") {
-      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    } else {
-      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-    }
-  } catch {
-    // Fallback (device senza supporto / permessi): vibrazione breve
-    Vibration.vibrate(level === "medium" ? 18 : 10);
-  }
+// Campi ripristinabili con undo/redo
+type UndoState = {
+  markers: Marker[];
+  rate: FrameRate;
+  startTC: string;
+  frames: number;
+  summary: string;
+  categories: MarkerCategory[];
+  pendingIn: number | null;
+  edl: EdlData | null;
 };
 
-/* ---------- Wheel (custom, no native popups) ---------- */
-
-function Wheel({
-  value,
-  onChange,
-  count,
-  itemHeight = 46,
-  visibleItems = 5,
-  textStyle,
-  containerStyle,
-  inactiveOpacity = 0.35,
-  highlightBg = "rgba(59, 130, 246, 0.12)",
-  highlightBorder = "rgba(59, 130, 246, 0.22)",
-}: {
-  value: number;
-  onChange: (v: number) => void;
-  count: number;
-  itemHeight?: number;
-  visibleItems?: number;
-  textStyle?: any;
-  containerStyle?: any;
-  inactiveOpacity?: number;
-  highlightBg?: string;
-  highlightBorder?: string;
-}) {
-  const data = useMemo(
-    () => Array.from({ length: count }, (_, i) => i),
-    [count]
-  );
-
-  const pad = Math.floor(visibleItems / 2);
-  const height = itemHeight * visibleItems;
-  const listRef = useRef<FlatList<number>>(null);
-
-  // Keep list aligned when value changes programmatically (e.g., open modal)
-  useEffect(() => {
-    try {
-      listRef.current?.scrollToOffset({
-        offset: Math.max(0, Math.min(count - 1, value)) * itemHeight,
-        animated: false,
-      });
-    } catch {
-      // ignore
-    }
-  }, [value, count, itemHeight]);
-
-  return (
-    <View
-      style={[
-        {
-          height,
-          width: "100%",
-          borderRadius: 14,
-          overflow: "hidden",
-        },
-        containerStyle,
-      ]}
-    >
-      <FlatList
-        ref={listRef}
-        data={data}
-        keyExtractor={(x) => String(x)}
-        showsVerticalScrollIndicator={false}
-        snapToInterval={itemHeight}
-        decelerationRate="fast"
-        bounces={false}
-        getItemLayout={(_, index) => ({
-          length: itemHeight,
-          offset: itemHeight * index,
-          index,
-        })}
-        initialScrollIndex={Math.max(0, Math.min(count - 1, value))}
-        contentContainerStyle={{
-          paddingVertical: pad * itemHeight,
-        }}
-        onMomentumScrollEnd={(e) => {
-          const raw = e.nativeEvent.contentOffset.y;
-          const idx = Math.round(raw / itemHeight);
-          const v = Math.max(0, Math.min(count - 1, idx));
-          onChange(v);
-        }}
-        onScrollEndDrag={(e) => {
-          const raw = e.nativeEvent.contentOffset.y;
-          const idx = Math.round(raw / itemHeight);
-          const v = Math.max(0, Math.min(count - 1, idx));
-          onChange(v);
-        }}
-        renderItem={({ item }) => {
-          const isSelected = item === value;
-          return (
-            <View
-              style={{
-                height: itemHeight,
-                alignItems: "center",
-                justifyContent: "center",
-              }}
-            >
-              <View
-                style={[
-                  {
-                    width: "88%",
-                    height: itemHeight - 10,
-                    borderRadius: 12,
-                    alignItems: "center",
-                    justifyContent: "center",
-                  },
-                  isSelected && {
-                    backgroundColor: highlightBg,
-                    borderWidth: 1,
-                    borderColor: highlightBorder,
-                  },
-                ]}
-              >
-                <Text
-                  style={[
-                    textStyle,
-                    {
-                      opacity: isSelected ? 1 : inactiveOpacity,
-                      fontWeight: isSelected ? "900" : "800",
-                      fontSize: isSelected ? 22 : 18,
-                    },
-                  ]}
-                >
-                  {String(item).padStart(2, "0")}
-                </Text>
-              </View>
-            </View>
-          );
-        }}
-      />
-    </View>
-  );
-}
-
 /* ---------- App ---------- */
 
 export default function HomeScreen() {
@@ -493,39 +189,64 @@ export default function HomeScreen() {
     return () => { mounted = false; };
   }, []);
 
-// Primo avvio: mostra il tutorial spotlight
-useEffect(() => {
-  (async () => {
-    try {
-      const v = await AsyncStorage.getItem(TOUR_FIRST_RUN_KEY);
-      if (v !== "1") {
+// Primo avvio, o "Rivedi tutorial" dalle impostazioni: mostra il tutorial spotlight
+useFocusEffect(
+  useCallback(() => {
+    getTourDone().then((done) => {
+      if (!done) {
         // piccola attesa per far montare la UI prima della misura
         setTimeout(() => {
           startTour();
         }, 250);
       }
-    } catch {
-      // se AsyncStorage fallisce, non bloccare l'app
-    }
-  })();
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-}, []);
+    });
+  }, [])
+);
 
-// Misura l'elemento evidenziato ad ogni step/pagina/tema
+// Misura l'elemento evidenziato ad ogni step/tema
 
-  const [fps, setFps] = useState(24);
+  const [rate, setRate] = useState<FrameRate>(DEFAULT_RATE);
+  // timebase intero del TC (23.976 -> 24): wheel FF, nudge in secondi
+  const fps = timebase(rate);
   const [startTC, setStartTC] = useState("01:00:00:00");
-  const [frames, setFrames] = useState(timecodeToFrames("01:00:00:00", 24));
+  const [frames, setFrames] = useState(timecodeToFrames("01:00:00:00", DEFAULT_RATE));
   const [playing, setPlaying] = useState(false);
   const playingRef = useRef(false);
   const [markers, setMarkers] = useState<Marker[]>([]);
   const [editing, setEditing] = useState<Marker | null>(null);
   const [comment, setComment] = useState("");
+  const [editingCategory, setEditingCategory] = useState<string | null>(null);
+  const [editingStatus, setEditingStatus] = useState<MarkerStatus | null>(null);
+  const [editingFrames, setEditingFrames] = useState(0);
+  const [categories, setCategories] = useState<MarkerCategory[]>(DEFAULT_CATEGORIES);
+  const [edl, setEdl] = useState<EdlData | null>(null);
+  const [csvOptions, setCsvOptions] = useState<CsvOptions | null>(null);
+
+  // Preferenze del dispositivo: si cambiano nelle impostazioni, quindi si
+  // rileggono ogni volta che la home torna in primo piano.
+  // Nome del reviewer: firma i marker catturati
+  const [reviewer, setReviewerName] = useState("");
+  // Nomi degli export: template con token e comportamento se il file esiste già
+  const [fileNameTemplate, setFileNameTemplateValue] = useState(DEFAULT_FILENAME_TEMPLATE);
+  const [autoRename, setAutoRenameValue] = useState(false);
+  // Durata dei cue SRT/WebVTT per i marker puntuali
+  const [cueSeconds, setCueSecondsValue] = useState(DEFAULT_CUE_SECONDS);
+  // Cartella di destinazione degli export su Android (SAF); null = condivisione
+  const [exportDirectory, setExportDirectoryValue] = useState<string | null>(null);
+  const [theme, setThemeValue] = useState<ThemeName>("dark");
+
+  useFocusEffect(
+    useCallback(() => {
+      getReviewer().then(setReviewerName);
+      getFileNameTemplate().then(setFileNameTemplateValue);
+      getAutoRename().then(setAutoRenameValue);
+      getCueSeconds().then(setCueSecondsValue);
+      if (Platform.OS === "android") getExportDirectory().then(setExportDirectoryValue);
+      getTheme().then(setThemeValue);
+    }, [])
+  );
 
-  const [theme, setTheme] = useState<ThemeName>("dark");
-  const [sortMode, setSortMode] = useState<"created" | "timecode">("timecode");
-
-  const [page, setPage] = useState<"home" | "settings">("home");
+  const [sortMode, setSortMode] = useState<SortMode>("timecode");
 
 // Tutorial spotlight (primo avvio)
 const [tourVisible, setTourVisible] = useState(false);
@@ -538,7 +259,10 @@ const captureAnchorRef = useRef<View>(null);
 const exportAnchorRef = useRef<View>(null);
 const geminiAnchorRef = useRef<View>(null);
 const homeAnchorRef = useRef<View>(null);
+const libraryAnchorRef = useRef<View>(null);
 const settingsAnchorRef = useRef<View>(null);
+// Home: la pagina principale torna in cima
+const scrollRef = useRef<ScrollView>(null);
 
 const tourSteps = useMemo(
   () => [
@@ -546,43 +270,41 @@ const tourSteps = useMemo(
       title: "Benvenuto in FrameMark",
       text: "Ti faccio vedere velocemente i comandi principali. Puoi saltare in qualsiasi momento.",
       ref: null as any,
-      page: "home" as const,
     },
 {
       title: "Play / Pausa",
       text: "Avvia o metti in pausa il timer in timecode.",
       ref: playAnchorRef,
-      page: "home" as const,
     },
     {
       title: "Cattura marker",
       text: "Tocca qui per catturare un marker al timecode corrente.",
       ref: captureAnchorRef,
-      page: "home" as const,
     },
     {
       title: "Esporta",
       text: "Esporta i markers in TXT/PDF oppure copiali negli appunti.",
       ref: exportAnchorRef,
-      page: "home" as const,
     },
     {
       title: "Riepilogo (Gemini)",
       text: "Genera un riepilogo automatico dei commenti inseriti sui markers.",
       ref: geminiAnchorRef,
-      page: "home" as const,
     },
     {
       title: "Home",
       text: "Torna rapidamente alla schermata principale.",
       ref: homeAnchorRef,
-      page: "home" as const,
+    },
+    {
+      title: "Sessioni",
+      text: "Apri la libreria: crea, rinomina, duplica o archivia le sessioni di screening.",
+      ref: libraryAnchorRef,
     },
     {
       title: "Impostazioni",
       text: "Cambia tema, FPS e start timecode.",
       ref: settingsAnchorRef,
-      page: "settings" as const,
     },
   ],
   []
@@ -601,12 +323,6 @@ useEffect(() => {
     return;
   }
 
-  // se lo step richiede un'altra pagina, spostati lì
-  if (page !== step.page) {
-    setPage(step.page);
-    return;
-  }
-
   const ref = step.ref?.current as any;
   // Use `measure` (pageX/pageY) instead of `measureInWindow` to avoid
   // coordinate mismatches with Modal/status bar insets (Android).
@@ -631,24 +347,17 @@ useEffect(() => {
   return () => {
     if (rAF !== null) cancelAnimationFrame(rAF);
   };
-}, [tourVisible, tourStep, page, theme, tourSteps]);
+}, [tourVisible, tourStep, theme, tourSteps]);
 
 
 const finishTour = async () => {
   setTourVisible(false);
   setTourRect(null);
-  setPage("home");
   setTourStep(0);
-  try {
-    await AsyncStorage.setItem(TOUR_FIRST_RUN_KEY, "1");
-  } catch {
-    // ignore
-  }
+  await setTourDone(true);
 };
 
 const startTour = async () => {
-  // forza avvio da home per garantire che i controlli esistano
-  setPage("home");
   setTourStep(0);
   setTourRect(null);
   setTourVisible(true);
@@ -658,47 +367,53 @@ const skipTour = async () => {
   await finishTour();
 };
 
-  // Start Timecode picker modal (HH:MM:SS:FF) - evita tastiera
-  const [tcModalOpen, setTcModalOpen] = useState(false);
-  const [tcH, setTcH] = useState(1);
-  const [tcM, setTcM] = useState(0);
-  const [tcS, setTcS] = useState(0);
-  const [tcF, setTcF] = useState(0);
-
   // Export picker modal (chiudibile senza scelta)
   const [exportModalVisible, setExportModalVisible] = useState(false);
   const closeExportModal = () => setExportModalVisible(false);
-  const chooseExport = async (kind: "txt" | "pdf" | "clip") => {
+  const chooseExport = async (
+    kind:
+      | "txt"
+      | "pdf"
+      | "clip"
+      | "avid"
+      | "resolve"
+      | "premiere-csv"
+      | "premiere-xml"
+      | "fcpxml"
+      | "framemark"
+      | "csv"
+      | "srt"
+      | "vtt"
+      | "youtube"
+      | "ffmetadata"
+      | "audacity"
+      | "reaper"
+      | "protools"
+      | "otio"
+      | "xlsx"
+  ) => {
     closeExportModal();
     if (kind === "txt") return exportMarkers();
-    if (kind === "pdf") return exportMarkersPdf();
+    if (kind === "pdf") return openReportModal();
+    if (kind === "avid") return exportAvid();
+    if (kind === "resolve") return exportResolve();
+    if (kind === "premiere-csv") return exportPremiere("csv");
+    if (kind === "premiere-xml") return exportPremiere("xml");
+    if (kind === "fcpxml") return exportFcpxml();
+    if (kind === "framemark") return exportFramemark();
+    if (kind === "csv") return openCsvModal();
+    if (kind === "srt" || kind === "vtt") return exportSubtitles(kind);
+    if (kind === "youtube") return exportYoutubeChapters();
+    if (kind === "ffmetadata") return exportFfmetadata();
+    if (kind === "audacity" || kind === "reaper" || kind === "protools") return exportAudio(kind);
+    if (kind === "otio") return exportOtio();
+    if (kind === "xlsx") return exportXlsx();
     return copyMarkersToClipboard();
   };
 
 
   const range = (n: number) => Array.from({ length: n }, (_, i) => i);
 
-  const openTcModal = () => {
-    const p = startTC.split(":").map((n) => Number(n));
-    if (p.length === 4 && p.every((x) => !Number.isNaN(x))) {
-      setTcH(p[0]);
-      setTcM(p[1]);
-      setTcS(p[2]);
-      setTcF(p[3]);
-    }
-    setTcModalOpen(true);
-  };
-
-  const confirmTcModal = () => {
-    const tc = `${String(tcH).padStart(2, "0")}:${String(tcM).padStart(
-      2,
-      "0"
-    )}:${String(tcS).padStart(2, "0")}:${String(tcF).padStart(2, "0")}`;
-    setStartTC(tc);
-    setFrames(timecodeToFrames(tc, fps));
-    setTcModalOpen(false);
-  };
-
   const ui = useMemo(() => getUi(theme), [theme]);
   const styles = useMemo(() => createStyles(ui), [ui]);
 
@@ -756,12 +471,10 @@ const skipTour = async () => {
       return;
     }
 
-    startMs.current = Date.now();
-    baseFrames.current = frames;
-
+    // startMs/baseFrames sono fissati da play() o dal ripristino della sessione
     const loop = () => {
       const elapsed = Date.now() - startMs.current;
-      const add = Math.floor((elapsed / 1000) * fps);
+      const add = framesForElapsed(elapsed, rate);
       setFrames(baseFrames.current + add);
       raf.current = requestAnimationFrame(loop);
     };
@@ -771,7 +484,7 @@ const skipTour = async () => {
       if (raf.current) cancelAnimationFrame(raf.current);
       raf.current = null;
     };
-  }, [playing, fps]);
+  }, [playing, rate]);
 
   const markerPulse = useRef(new Animated.Value(1)).current;
 
@@ -805,6 +518,51 @@ const skipTour = async () => {
   }, [playing, markerPulse]);
 
 
+  /* ---------- Undo / redo ---------- */
+
+  const applyUndoState = (patch: Partial<UndoState>) => {
+    if (patch.markers) setMarkers(patch.markers);
+    if (patch.pendingIn !== undefined) setPendingIn(patch.pendingIn);
+    if (patch.edl !== undefined) setEdl(patch.edl);
+    if (patch.rate) setRate(patch.rate);
+    if (patch.startTC !== undefined) setStartTC(patch.startTC);
+    if (patch.summary !== undefined) setSummary(patch.summary);
+    if (patch.categories) setCategories(patch.categories);
+    if (patch.frames !== undefined) {
+      setFrames(patch.frames);
+      // clock in corsa: riparte dal frame ripristinato
+      baseFrames.current = patch.frames;
+      startMs.current = Date.now();
+    }
+  };
+
+  const history = useUndoHistory<UndoState>(
+    () => ({ markers, rate, startTC, frames, summary, categories, pendingIn, edl }),
+    applyUndoState
+  );
+
+  // Il toast annuncia una voce precisa della cronologia: sparisce appena
+  // un'altra operazione finisce in cima
+  const [toast, setToast] = useState<{ message: string; entry: number } | null>(null);
+  const hideToast = useCallback(() => setToast(null), []);
+  const toastMessage = toast && toast.entry === history.undoId ? toast.message : null;
+
+  const undo = () => {
+    setToast(null);
+    if (history.undo()) doHaptic("light");
+  };
+
+  const undoToast = () => {
+    if (!toast) return;
+    setToast(null);
+    if (history.undo(toast.entry)) doHaptic("light");
+  };
+
+  const redo = () => {
+    setToast(null);
+    if (history.redo()) doHaptic("light");
+  };
+
   /* ---------- Controls ---------- */
 
   const play = () => {
@@ -820,11 +578,14 @@ const skipTour = async () => {
   };
 
   const reset = () => {
+    const entry = history.record("Reset", ["markers", "summary", "frames", "pendingIn"]);
     stop();
-    const f = timecodeToFrames(startTC, fps);
+    const f = timecodeToFrames(startTC, rate);
     setFrames(f);
     setMarkers([]);
+    setPendingIn(null);
     setSummary("");
+    return entry;
   };
 
   const confirmReset = () => {
@@ -836,7 +597,9 @@ const skipTour = async () => {
         {
           text: "Conferma",
           style: "destructive",
-          onPress: () => reset(),
+          onPress: () => {
+            setToast({ message: "Markers cancellati", entry: reset() });
+          },
         },
       ]
     );
@@ -847,42 +610,107 @@ const skipTour = async () => {
     setFrames((f) => Math.max(0, f + deltaSeconds * fps));
   };
 
-  const changeFps = (newFps: number) => {
-    setFrames((currentFrames) => {
-      const seconds = framesToSeconds(currentFrames, fps);
-      return secondsToFrames(seconds, newFps);
-    });
-
-    setFps(newFps);
-  };
-
-
   /* ---------- Markers ---------- */
 
   const nextMarkerId = useRef(1);
 
-const capture = () => {
-  const m: Marker = {
+  const [captureMode, setCaptureMode] = useState<CaptureMode>("point");
+  const [pendingIn, setPendingIn] = useState<number | null>(null);
+  const pressInFrames = useRef(0);
+  const [holdIn, setHoldIn] = useState<number | null>(null);
+
+  const addMarker = (inFrames: number, outFrames: number) => {
+    const m: Marker = {
       id: nextMarkerId.current++,
-      frames,
+      frames: Math.min(inFrames, outFrames),
+      duration: Math.abs(outFrames - inFrames),
       comment: "",
+      category: null,
+      status: null,
+      author: reviewer.trim(),
+      capturedAt: Date.now(),
     };
+    // in modalità intervallo il secondo tocco ha appena svuotato l'IN in attesa
+    history.record("Marker", ["markers", "pendingIn"]);
     setMarkers((prev) => [...prev, m]);
+    openEditor(m);
+  };
+
+  // Pre-roll: il tocco arriva dopo l'istante a cui si è reagito
+  const [preRoll, setPreRoll] = useState<PreRoll>({ value: 0, unit: "seconds" });
+  const preRollFrames =
+    preRoll.unit === "seconds" ? secondsToFrames(preRoll.value, rate) : Math.round(preRoll.value);
+  const compensate = (f: number) => Math.max(0, f - preRollFrames);
+
+const capture = () => {
+    const now = compensate(frames);
+    if (captureMode === "range") {
+      if (pendingIn === null) {
+        setPendingIn(now);
+        return;
+      }
+      setPendingIn(null);
+      return addMarker(pendingIn, now);
+    }
+    addMarker(now, now);
+  };
+
+  // Hold-to-mark: IN al momento del tocco, OUT al rilascio
+  const beginHoldCapture = () => {
+    setPendingIn(null);
+    setHoldIn(compensate(pressInFrames.current));
+  };
+
+  const endHoldCapture = () => {
+    if (holdIn === null) return;
+    setHoldIn(null);
+    addMarker(holdIn, compensate(frames));
+  };
+
+  const openEditor = (m: Marker) => {
     setEditing(m);
-    setComment("");
+    setComment(m.comment);
+    setEditingCategory(m.category);
+    setEditingStatus(m.status);
+    setEditingFrames(m.frames);
+  };
+
+  // Nudge del marker in modifica (l'intervallo si sposta in blocco)
+  const nudgeEditing = (delta: number) => {
+    setEditingFrames((f) => Math.max(0, f + delta));
   };
 
   const saveComment = () => {
     if (!editing) return;
+    const current = markers.find((m) => m.id === editing.id);
+    if (
+      current &&
+      (current.comment !== comment ||
+        current.category !== editingCategory ||
+        current.status !== editingStatus ||
+        current.frames !== editingFrames)
+    ) {
+      history.record("Commento", ["markers"]);
+    }
     setMarkers((prev) =>
-      prev.map((m) => (m.id === editing.id ? { ...m, comment } : m))
+      prev.map((m) =>
+        m.id === editing.id
+          ? {
+              ...m,
+              comment,
+              category: editingCategory,
+              status: editingStatus,
+              frames: editingFrames,
+            }
+          : m
+      )
     );
     setEditing(null);
     setComment("");
   };
 
   const deleteMarker = (marker: Marker) => {
-    const tc = framesToTimecode(marker.frames, fps);
+    const tc = formatMarkerTime(marker, rate);
     Alert.alert(
       "Elimina marker",
       `Vuoi eliminare il marker a ${tc}?`,
@@ -892,43 +720,30 @@ const capture = () => {
           text: "Elimina",
           style: "destructive",
           onPress: () => {
+            const entry = history.record("Elimina marker", ["markers"]);
             setMarkers((prev) => prev.filter((m) => m.id !== marker.id));
             if (editing?.id === marker.id) {
               setEditing(null);
               setComment("");
             }
+            setToast({ message: `Marker ${tc} eliminato`, entry });
           },
         },
       ]
     );
   };
 
-  const buildMarkersText = () => {
-    const ordered =
-      sortMode === "timecode"
-        ? [...markers].sort((a, b) => a.frames - b.frames)
-        : markers;
-
-    return ordered
-      .map((m, index) => {
-        const num = String(index + 1).padStart(2, "0"); // 01, 02, 03...
-        const tc = framesToTimecode(m.frames, fps);
-        const c = (m.comment || "").trim();
-        return `#${num} [${tc}] ${c}`.trimEnd();
-      })
-      .join("\n");
-  };
-
   // File name picker (iOS prompt, Android custom modal)
   const [nameModalVisible, setNameModalVisible] = useState(false);
   const [nameDraft, setNameDraft] = useState("");
   const [nameDefault, setNameDefault] = useState("");
-  const [nameExt, setNameExt] = useState<"txt" | "pdf">("txt");
-  const nameResolveRef = useRef<((fileName: string) => void) | null>(null);
+  const [nameExt, setNameExt] = useState("txt");
+  const nameResolveRef = useRef<((baseName: string) => void) | null>(null);
 
+  // Nome senza estensione, già ripulito dai caratteri non validi
   const askFileName = (
     defaultName: string,
-    extension: "txt" | "pdf"
+    extension: string
   ): Promise<string> => {
     return new Promise((resolve) => {
       if (Platform.OS === "ios") {
@@ -939,18 +754,11 @@ const capture = () => {
             {
               text: "Annulla",
               style: "cancel",
-              onPress: () => resolve(`${defaultName}.${extension}`),
+              onPress: () => resolve(defaultName),
             },
             {
               text: "OK",
-              onPress: (value?: string) => {
-                const name = value?.trim();
-                resolve(
-                  name && name.length > 0
-                    ? `${name}.${extension}`
-                    : `${defaultName}.${extension}`
-                );
-              },
+              onPress: (value?: string) => resolve(sanitizeFileName(value ?? "", defaultName)),
             },
           ],
           "plain-text",
@@ -969,197 +777,118 @@ const capture = () => {
   };
 
   const confirmNameModal = () => {
-    const n = nameDraft.trim();
-    const finalName = `${n.length > 0 ? n : nameDefault}.${nameExt}`;
     setNameModalVisible(false);
-    nameResolveRef.current?.(finalName);
+    nameResolveRef.current?.(sanitizeFileName(nameDraft, nameDefault));
     nameResolveRef.current = null;
   };
 
   const cancelNameModal = () => {
-    const finalName = `${nameDefault}.${nameExt}`;
     setNameModalVisible(false);
-    nameResolveRef.current?.(finalName);
+    nameResolveRef.current?.(nameDefault);
     nameResolveRef.current = null;
   };
 
-  const exportMarkers = async () => {
-    if (markers.length === 0) {
-      Alert.alert("Export", "Nessun marker da esportare.");
-      return;
-    }
-
-    const content = buildMarkersText();
-
-    const defaultName = `markers_${fps}fps`;
-    const fileName = await askFileName(defaultName, "txt");
-    const uri = FileSystem.documentDirectory + fileName;
+  // Base dei nomi file proposti, dal template ("markers_23.976fps_DF" di default)
+  const fileBaseName = () =>
+    renderFileName(fileNameTemplate, {
+      project: session?.project ?? "",
+      reel: session?.reel ?? "",
+      title: session?.title ?? "",
+      date: new Date(),
+      rate,
+      count: markers.length,
+      reviewer,
+    });
 
-    await FileSystem.writeAsStringAsync(uri, content);
-    await Sharing.shareAsync(uri);
+  // Nome finale nella destinazione. Se il file c'è già si chiede se
+  // sovrascriverlo, oppure si aggiunge "-2" da soli; null = export annullato.
+  const exportFileName = async (
+    defaultName: string,
+    extension: string,
+    exists: (fileName: string) => Promise<boolean> | boolean,
+    remove: (fileName: string) => Promise<void>
+  ): Promise<string | null> => {
+    const base = await askFileName(defaultName, extension);
+    const fileName = `${base}.${extension}`;
+    if (!(await exists(fileName))) return fileName;
+
+    const renamed = await nextFreeFileName(base, extension, exists);
+    if (autoRename) return renamed;
+
+    return new Promise((resolve) =>
+      Alert.alert("File esistente", `"${fileName}" esiste già.`, [
+        { text: "Annulla", style: "cancel", onPress: () => resolve(null) },
+        { text: `Salva come "${renamed}"`, onPress: () => resolve(renamed) },
+        {
+          text: "Sovrascrivi",
+          style: "destructive",
+          onPress: async () => {
+            await remove(fileName);
+            resolve(fileName);
+          },
+        },
+      ])
+    );
   };
 
-  const exportMarkersPdf = async () => {
-    if (markers.length === 0) {
-      Alert.alert("Export", "Nessun marker da esportare.");
-      return;
-    }
+  // Web: download del browser. Android con una cartella scelta: si scrive lì.
+  // Altrimenti documenti dell'app + foglio di condivisione.
+  const saveExportFile = async (
+    content: string,
+    defaultName: string,
+    extension: string,
+    options: { mimeType?: string; UTI?: string; base64?: boolean } = {}
+  ) => {
+    const { mimeType, UTI, base64 } = options;
 
     if (Platform.OS === "web") {
-      Alert.alert("Export PDF", "Export PDF non supportato su web.");
+      const base = await askFileName(defaultName, extension);
+      downloadFile(
+        `${base}.${extension}`,
+        base64 ? base64ToBytes(content) : content,
+        mimeType ?? "text/plain"
+      );
       return;
     }
 
-    const ordered =
-      sortMode === "timecode"
-        ? [...markers].sort((a, b) => a.frames - b.frames)
-        : markers;
-
-    const now = new Date();
-    const exportedAt = new Intl.DateTimeFormat("it-IT", {
-      dateStyle: "medium",
-      timeStyle: "short",
-    }).format(now);
-
-    const esc = (s: string) =>
-      s
-        .replaceAll("&", "&amp;")
-        .replaceAll("<", "&lt;")
-        .replaceAll(">", "&gt;")
-        .replaceAll('"', "&quot;")
-        .replaceAll("'", "&#039;");
-
-    const rows = ordered
-      .map((m, index) => {
-        const num = String(index + 1).padStart(2, "0");
-        const tc = framesToTimecode(m.frames, fps);
-        const c = (m.comment || "").trim();
-
-        return `
-          <tr>
-            <td class="num">#${num}</td>
-            <td class="tc">${esc(tc)}</td>
-            <td class="cmt">${esc(c)}</td>
-          </tr>`;
-      })
-      .join("");
-
-    const html = `
-    <!doctype html>
-    <html>
-      <head>
-        <meta charset="utf-8" />
-        <meta name="viewport" content="width=device-width, initial-scale=1" />
-
-        <style>
-          @page { size: A4; margin: 22mm 14mm 18mm 14mm; }
-
-          body {
-            font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Arial, sans-serif;
-            color: #111;
-            font-size: 12px;
-          }
-
-          .header {
-            display: flex;
-            justify-content: space-between;
-            align-items: flex-end;
-            margin-bottom: 10px;
-          }
-          .title {
-            font-size: 16px;
-            font-weight: 800;
-            letter-spacing: .2px;
-            margin: 0;
-          }
-          .subtitle {
-            font-size: 11px;
-            color: #555;
-            margin-top: 4px;
-          }
-          .meta {
-            text-align: right;
-            font-size: 10.5px;
-            color: #555;
-            line-height: 1.25;
-          }
+    const encoding = base64 ? FileSystem.EncodingType.Base64 : FileSystem.EncodingType.UTF8;
 
-          table { width: 100%; border-collapse: collapse; table-layout: fixed; }
-          thead th {
-            background: #f2f2f2;
-            border-bottom: 1px solid #d8d8d8;
-            padding: 8px 8px;
-            font-weight: 800;
-            text-align: left;
-          }
-          tbody td {
-            border-bottom: 1px solid #e6e6e6;
-            padding: 8px 8px;
-            vertical-align: top;
-          }
-          tbody tr:nth-child(even) td { background: #fafafa; }
-
-          .num { width: 52px; white-space: nowrap; font-weight: 800; }
-          .tc  { width: 105px; white-space: nowrap; font-weight: 800; }
-          .cmt { width: auto; white-space: pre-wrap; word-break: break-word; }
-
-          tr { page-break-inside: avoid; }
-
-          .footer {
-            position: fixed;
-            bottom: -10mm;
-            left: 0;
-            right: 0;
-            font-size: 10px;
-            color: #666;
-            display: flex;
-            justify-content: space-between;
-            align-items: center;
+    if (Platform.OS === "android" && exportDirectory) {
+      try {
+        const files = await directoryFiles(exportDirectory);
+        const fileName = await exportFileName(
+          defaultName,
+          extension,
+          (name) => files.has(name),
+          async (name) => {
+            const uri = files.get(name);
+            if (uri) await FileSystem.deleteAsync(uri, { idempotent: true });
           }
-          .pagecount::after { content: "Pagina " counter(page) " / " counter(pages); }
-        </style>
-      </head>
-
-      <body>
-        <div class="header">
-          <div>
-            <h1 class="title">Markers Export</h1>
-            <div class="subtitle">Ordinamento: ${esc(sortMode)} • Totale: ${ordered.length}</div>
-          </div>
-          <div class="meta">
-            <div><b>FPS:</b> ${esc(String(fps))}</div>
-            <div><b>Export:</b> ${esc(exportedAt)}</div>
-          </div>
-        </div>
-
-        <table>
-          <thead>
-            <tr>
-              <th style="width:52px;">#</th>
-              <th style="width:105px;">Timecode</th>
-              <th>Commento</th>
-            </tr>
-          </thead>
-          <tbody>
-            ${rows}
-          </tbody>
-        </table>
-
-        <div class="footer">
-          <div>Markers Export</div>
-          <div class="pagecount"></div>
-        </div>
-      </body>
-    </html>`;
-
-    const result = await Print.printToFileAsync({ html });
+        );
+        if (!fileName) return;
+
+        await writeToDirectory(exportDirectory, fileName, content, encoding);
+        Alert.alert("Export", `Salvato in ${directoryLabel(exportDirectory)}: ${fileName}`);
+      } catch {
+        // permesso revocato o cartella rimossa
+        Alert.alert(
+          "Export",
+          "Cartella di destinazione non accessibile. Sceglila di nuovo nelle Impostazioni."
+        );
+      }
+      return;
+    }
 
-    const safeSort = sortMode === "timecode" ? "timecode" : "ordine";
-    const defaultName = `markers_${fps}fps_${safeSort}`;
-    const fileName = await askFileName(defaultName, "pdf");
-    const targetUri = FileSystem.documentDirectory + fileName;
+    const dir = FileSystem.documentDirectory ?? "";
+    const fileName = await exportFileName(
+      defaultName,
+      extension,
+      (name) => fileExists(dir + name),
+      (name) => FileSystem.deleteAsync(dir + name, { idempotent: true })
+    );
+    if (!fileName) return;
 
-    await FileSystem.copyAsync({ from: result.uri, to: targetUri });
+    await FileSystem.writeAsStringAsync(dir + fileName, content, { encoding });
 
     const canShare = await Sharing.isAvailableAsync();
     if (!canShare) {
@@ -1167,39 +896,346 @@ const capture = () => {
       return;
     }
 
-    await Sharing.shareAsync(targetUri, {
-      mimeType: "application/pdf",
-      UTI: "com.adobe.pdf",
-    });
+    await Sharing.shareAsync(dir + fileName, mimeType ? { mimeType, UTI } : undefined);
   };
 
-  const copyMarkersToClipboard = async () => {
+  const exportContext = (): ExportContext => ({
+    markers,
+    rate,
+    startTC,
+    categories,
+    session,
+    summary,
+    edl,
+  });
+
+  const shareTextFile = (
+    content: string,
+    defaultName: string,
+    extension: string,
+    mimeType?: string
+  ) => saveExportFile(content, defaultName, extension, { mimeType });
+
+  const exportMarkers = async () => {
     if (markers.length === 0) {
-      Alert.alert("Export", "Nessun marker da copiare.");
+      Alert.alert("Export", "Nessun marker da esportare.");
       return;
     }
-    const text = buildMarkersText();
-    await Clipboard.setStringAsync(text);
-    Alert.alert("Copiato", "Markers copiati negli appunti.");
+
+    await shareTextFile(buildMarkersText(exportContext(), sortMode), fileBaseName(), "txt");
   };
 
-  const onPressExport = () => {
+  const exportAvid = async () => {
     if (markers.length === 0) {
       Alert.alert("Export", "Nessun marker da esportare.");
       return;
     }
-    setExportModalVisible(true);
+
+    await shareTextFile(buildAvidMarkers(exportContext()), `${fileBaseName()}_avid`, "txt", "text/plain");
   };
 
-  /* ---------- GEMINI SUMMARY ---------- */
+  const exportResolve = async () => {
+    if (markers.length === 0) {
+      Alert.alert("Export", "Nessun marker da esportare.");
+      return;
+    }
 
-const generateSummary = async () => {
+    await shareTextFile(buildResolveEdl(exportContext()), `${fileBaseName()}_resolve`, "edl", "text/plain");
+  };
 
-  if (markers.length === 0) {
+  const exportPremiere = async (format: "csv" | "xml") => {
+    if (markers.length === 0) {
+      Alert.alert("Export", "Nessun marker da esportare.");
+      return;
+    }
 
-    Alert.alert("Riepilogo", "Nessun marker disponibile.");
+    const ctx = exportContext();
+    if (format === "csv") {
+      await shareTextFile(buildPremiereCsv(ctx), `${fileBaseName()}_premiere`, "csv", "text/csv");
+    } else {
+      await shareTextFile(buildPremiereXml(ctx), `${fileBaseName()}_premiere`, "xml", "application/xml");
+    }
+  };
 
-    return;
+  const exportFcpxml = async () => {
+    if (markers.length === 0) {
+      Alert.alert("Export", "Nessun marker da esportare.");
+      return;
+    }
+
+    await shareTextFile(buildFcpxml(exportContext()), fileBaseName(), "fcpxml", "application/xml");
+  };
+
+  const exportOtio = async () => {
+    if (markers.length === 0) {
+      Alert.alert("Export", "Nessun marker da esportare.");
+      return;
+    }
+
+    await shareTextFile(buildOtio(exportContext()), fileBaseName(), "otio", "application/json");
+  };
+
+  // Sessione completa, reimportabile su un altro dispositivo
+  const exportFramemark = async () => {
+    await saveExportFile(buildFramemarkJson(exportContext()), fileBaseName(), FRAMEMARK_EXTENSION, {
+      mimeType: "application/json",
+      UTI: FRAMEMARK_UTI,
+    });
+  };
+
+  // CSV/TSV: si sceglie la configurazione, che resta salvata nella sessione
+  const [csvModalVisible, setCsvModalVisible] = useState(false);
+  const [csvDraft, setCsvDraft] = useState<CsvOptions>(DEFAULT_CSV_OPTIONS);
+
+  const openCsvModal = () => {
+    setCsvDraft(csvOptions ?? DEFAULT_CSV_OPTIONS);
+    setCsvModalVisible(true);
+  };
+
+  const toggleCsvColumn = (id: CsvColumn) => {
+    setCsvDraft((d) => ({
+      ...d,
+      columns: d.columns.includes(id) ? d.columns.filter((c) => c !== id) : [...d.columns, id],
+    }));
+  };
+
+  const exportCsv = async () => {
+    if (csvDraft.columns.length === 0) {
+      Alert.alert("Export", "Seleziona almeno una colonna.");
+      return;
+    }
+    setCsvOptions(csvDraft);
+    setCsvModalVisible(false);
+
+    const tsv = csvDraft.delimiter === "\t";
+    await shareTextFile(
+      buildCsv(exportContext(), csvDraft),
+      fileBaseName(),
+      tsv ? "tsv" : "csv",
+      tsv ? "text/tab-separated-values" : "text/csv"
+    );
+  };
+
+  // Foglio formattato per la produzione; stesso giro di condivisione del PDF
+  const exportXlsx = async () => {
+    if (markers.length === 0) {
+      Alert.alert("Export", "Nessun marker da esportare.");
+      return;
+    }
+
+    const bytes = buildXlsx(exportContext(), { sortMode, reviewer, exportedAt: new Date() });
+    await saveExportFile(bytesToBase64(bytes), fileBaseName(), "xlsx", {
+      mimeType: XLSX_MIME_TYPE,
+      UTI: XLSX_UTI,
+      base64: true,
+    });
+  };
+
+  const exportSubtitles = async (format: SubtitleFormat) => {
+    if (markers.length === 0) {
+      Alert.alert("Export", "Nessun marker da esportare.");
+      return;
+    }
+
+    await shareTextFile(
+      buildSubtitles(exportContext(), format, cueSeconds),
+      fileBaseName(),
+      format,
+      format === "vtt" ? "text/vtt" : "application/x-subrip"
+    );
+  };
+
+  // Le regole di YouTube non bloccano l'export: si avvisa e si lascia scegliere
+  const exportYoutubeChapters = async () => {
+    if (markers.length === 0) {
+      Alert.alert("Export", "Nessun marker da esportare.");
+      return;
+    }
+
+    const { text, warnings } = buildYoutubeChapters(exportContext());
+    const share = () => shareTextFile(text, `${fileBaseName()}_youtube`, "txt", "text/plain");
+    if (warnings.length === 0) {
+      await share();
+      return;
+    }
+    Alert.alert("Capitoli YouTube", warnings.join("\n\n"), [
+      { text: "Annulla", style: "cancel" },
+      {
+        text: "Copia",
+        onPress: async () => {
+          await Clipboard.setStringAsync(text);
+        },
+      },
+      { text: "Esporta", onPress: share },
+    ]);
+  };
+
+  const exportFfmetadata = async () => {
+    if (markers.length === 0) {
+      Alert.alert("Export", "Nessun marker da esportare.");
+      return;
+    }
+
+    await shareTextFile(buildFfmetadata(exportContext()), `${fileBaseName()}_chapters`, "txt", "text/plain");
+  };
+
+  // Audio: Audacity e Reaper lavorano in secondi dallo start TC, Pro Tools in campioni
+  const exportAudio = async (app: "audacity" | "reaper" | "protools") => {
+    if (markers.length === 0) {
+      Alert.alert("Export", "Nessun marker da esportare.");
+      return;
+    }
+
+    const ctx = exportContext();
+    if (app === "audacity") {
+      await shareTextFile(buildAudacityLabels(ctx), `${fileBaseName()}_audacity`, "txt", "text/plain");
+    } else if (app === "reaper") {
+      await shareTextFile(buildReaperCsv(ctx), `${fileBaseName()}_reaper`, "csv", "text/csv");
+    } else {
+      await shareTextFile(buildProToolsMarkers(ctx), `${fileBaseName()}_protools`, "txt", "text/plain");
+    }
+  };
+
+  const exportMarkersPdf = async (template: ReportTemplate) => {
+    if (markers.length === 0) {
+      Alert.alert("Export", "Nessun marker da esportare.");
+      return;
+    }
+
+    const html = buildReportHtml(exportContext(), template, {
+      sortMode,
+      reviewer,
+      exportedAt: new Date(),
+    });
+    const safeSort = sortMode === "timecode" ? "timecode" : "ordine";
+    const defaultName = `${fileBaseName()}_${safeSort}`;
+
+    // Web: expo-print stamperebbe la pagina dell'app, si stampa il report
+    // in un iframe e il PDF lo salva il browser
+    if (Platform.OS === "web") {
+      const base = await askFileName(defaultName, "pdf");
+      await printHtml(html, base);
+      return;
+    }
+
+    const result = await Print.printToFileAsync({ html, ...reportPageSize(template) });
+
+    const pdf = await FileSystem.readAsStringAsync(result.uri, {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+    await FileSystem.deleteAsync(result.uri, { idempotent: true });
+
+    await saveExportFile(pdf, defaultName, "pdf", {
+      mimeType: "application/pdf",
+      UTI: "com.adobe.pdf",
+      base64: true,
+    });
+  };
+
+  // Report PDF: template con nome, salvati sul dispositivo
+  const [reportModalVisible, setReportModalVisible] = useState(false);
+  const [reportTemplates, setReportTemplates] = useState<ReportTemplate[]>([]);
+  const [reportDraft, setReportDraft] = useState<ReportTemplate>(DEFAULT_REPORT_TEMPLATE);
+
+  const openReportModal = async () => {
+    const [list, lastId] = await Promise.all([getReportTemplates(), getLastReportTemplateId()]);
+    setReportTemplates(list);
+    setReportDraft(list.find((t) => t.id === lastId) ?? list[0]);
+    setReportModalVisible(true);
+  };
+
+  const patchReport = (patch: Partial<ReportTemplate>) =>
+    setReportDraft((d) => ({ ...d, ...patch }));
+
+  const toggleReportColumn = (id: ReportColumn) => {
+    setReportDraft((d) => ({
+      ...d,
+      columns: d.columns.includes(id) ? d.columns.filter((c) => c !== id) : [...d.columns, id],
+    }));
+  };
+
+  const pickReportLogo = async () => {
+    try {
+      const logo = await pickImageDataUri();
+      if (logo) patchReport({ logo });
+    } catch {
+      Alert.alert("Logo", "Impossibile leggere l'immagine selezionata.");
+    }
+  };
+
+  // "Salva" aggiorna il template scelto, "Salva come nuovo" ne crea una copia
+  const saveReportTemplate = async (asNew: boolean) => {
+    const name = reportDraft.name.trim() || "Template";
+    const saved: ReportTemplate = asNew
+      ? { ...reportDraft, id: `tpl-${Date.now().toString(36)}`, name }
+      : { ...reportDraft, name };
+    const next = asNew
+      ? [...reportTemplates, saved]
+      : reportTemplates.map((t) => (t.id === saved.id ? saved : t));
+    setReportTemplates(next);
+    setReportDraft(saved);
+    await saveReportTemplates(next);
+    await setLastReportTemplateId(saved.id);
+  };
+
+  const deleteReportTemplate = () => {
+    if (reportTemplates.length <= 1) {
+      Alert.alert("Template", "Serve almeno un template.");
+      return;
+    }
+    Alert.alert("Elimina template", `Vuoi eliminare il template "${reportDraft.name}"?`, [
+      { text: "Annulla", style: "cancel" },
+      {
+        text: "Elimina",
+        style: "destructive",
+        onPress: async () => {
+          const next = reportTemplates.filter((t) => t.id !== reportDraft.id);
+          setReportTemplates(next);
+          setReportDraft(next[0]);
+          await saveReportTemplates(next);
+        },
+      },
+    ]);
+  };
+
+  const exportReport = async () => {
+    if (reportDraft.columns.length === 0) {
+      Alert.alert("Export", "Seleziona almeno una colonna.");
+      return;
+    }
+    const template = reportDraft;
+    setReportModalVisible(false);
+    await setLastReportTemplateId(template.id);
+    await exportMarkersPdf(template);
+  };
+
+  const copyMarkersToClipboard = async () => {
+    if (markers.length === 0) {
+      Alert.alert("Export", "Nessun marker da copiare.");
+      return;
+    }
+    const text = buildMarkersText(exportContext(), sortMode);
+    await Clipboard.setStringAsync(text);
+    Alert.alert("Copiato", "Markers copiati negli appunti.");
+  };
+
+  const onPressExport = () => {
+    if (markers.length === 0) {
+      Alert.alert("Export", "Nessun marker da esportare.");
+      return;
+    }
+    setExportModalVisible(true);
+  };
+
+  /* ---------- GEMINI SUMMARY ---------- */
+
+const generateSummary = async () => {
+
+  if (markers.length === 0) {
+
+    Alert.alert("Riepilogo", "Nessun marker disponibile.");
+
+    return;
 
   }
 
@@ -1232,7 +1268,10 @@ const generateSummary = async () => {
 
   const text = ordered
 
-    .map((m) => `[${framesToTimecode(m.frames, fps)}] ${m.comment || ""}`)
+    .map((m) => {
+      const cat = findCategory(categories, m.category);
+      return `[${formatMarkerTime(m, rate)}]${cat ? ` (${cat.label})` : ""} ${m.comment || ""}`;
+    })
 
     .join("\n");
 
@@ -1279,6 +1318,198 @@ const generateSummary = async () => {
 
 };
 
+/* ---------- Persistenza sessione ---------- */
+
+  const { session: sessionParam } = useLocalSearchParams<{ session?: string }>();
+  const [session, setSession] = useState<SessionMeta | null>(null);
+  const sessionIdRef = useRef<string | null>(null);
+  const [hydrated, setHydrated] = useState(false);
+  // savedAt dell'ultimo snapshot scritto o letto da qui: se in storage ne
+  // compare un altro, la sessione è stata modificata dalle impostazioni
+  const lastSavedAt = useRef(0);
+  // Fuori fuoco la home non scrive: le impostazioni salvano la stessa sessione
+  const focusedRef = useRef(false);
+
+  const applySnapshot = (saved: SessionSnapshot) => {
+    setRate(saved.rate);
+    setStartTC(saved.startTC);
+    setMarkers(saved.markers);
+    setSummary(saved.summary);
+    setSortMode(saved.sortMode);
+    setCategories(saved.categories);
+    setEdl(saved.edl);
+    setCsvOptions(saved.csv);
+    setCaptureMode(saved.captureMode);
+    setPreRoll(saved.preRoll);
+    history.clear();
+    setToast(null);
+    setPendingIn(saved.pendingIn);
+    setHoldIn(null);
+    setEditing(null);
+    setComment("");
+    nextMarkerId.current =
+      saved.markers.reduce((max, m) => Math.max(max, m.id), 0) + 1;
+
+    if (saved.clock.running) {
+      baseFrames.current = saved.clock.baseFrames;
+      startMs.current = saved.clock.startedAt;
+      setFrames(
+        saved.clock.baseFrames +
+          framesForElapsed(Date.now() - saved.clock.startedAt, saved.rate)
+      );
+      setPlaying(true);
+    } else {
+      setPlaying(false);
+      setFrames(saved.frames);
+    }
+  };
+
+  // Mentre il clock gira i frame cambiano a ogni rAF: si salva l'ancora
+  // (startedAt + baseFrames), non il valore corrente.
+  const pausedFrames = playing ? null : frames;
+
+  const buildSnapshot = (): SessionSnapshot => ({
+    version: 1,
+    markers,
+    frames: playing ? baseFrames.current : frames,
+    startTC,
+    rate,
+    summary,
+    sortMode,
+    categories,
+    captureMode,
+    preRoll,
+    pendingIn,
+    edl,
+    csv: csvOptions,
+    clock: {
+      running: playing,
+      startedAt: startMs.current,
+      baseFrames: baseFrames.current,
+    },
+    savedAt: Date.now(),
+  });
+
+  const snapshotRef = useRef(buildSnapshot);
+  useEffect(() => {
+    snapshotRef.current = buildSnapshot;
+  });
+
+  // sessionIdRef è valorizzato solo a ripristino completato
+  const persistNow = async () => {
+    if (!sessionIdRef.current || !focusedRef.current) return;
+    const snapshot = snapshotRef.current();
+    lastSavedAt.current = snapshot.savedAt;
+    await saveSession(sessionIdRef.current, snapshot);
+  };
+
+  // Apertura sessione (avvio o scelta dalla libreria): salva quella corrente,
+  // poi ripristina la nuova; se il clock girava, riparte dal TC corretto
+  useEffect(() => {
+    if (sessionParam && sessionParam === sessionIdRef.current) return;
+    let mounted = true;
+    (async () => {
+      // le impostazioni possono aver già riscritto la sessione uscente
+      const outgoing = sessionIdRef.current && (await loadSession(sessionIdRef.current));
+      if (!outgoing || outgoing.savedAt === lastSavedAt.current) await persistNow();
+      sessionIdRef.current = null;
+      setHydrated(false);
+
+      const meta = await resolveSession(sessionParam);
+      const saved = (await loadSession(meta.id)) ?? emptySnapshot(meta.rate, meta.startTC);
+      if (!mounted) return;
+      applySnapshot(saved);
+      lastSavedAt.current = saved.savedAt;
+      sessionIdRef.current = meta.id;
+      setSession(meta);
+      setHydrated(true);
+    })();
+    return () => { mounted = false; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sessionParam]);
+
+  // Riporta in home le modifiche fatte dalle impostazioni: i campi ripristinabili
+  // finiscono in un'unica voce di undo, il clock riparte dall'ancora salvata
+  const syncFromStorage = (saved: SessionSnapshot) => {
+    lastSavedAt.current = saved.savedAt;
+    const now = { markers, rate, startTC, categories, pendingIn, edl };
+    const keys = (Object.keys(now) as (keyof typeof now)[]).filter(
+      (k) => JSON.stringify(now[k]) !== JSON.stringify(saved[k])
+    );
+    const clockMoved = keys.includes("rate") || keys.includes("startTC");
+    const nextFrames = saved.clock.running
+      ? saved.clock.baseFrames + framesForElapsed(Date.now() - saved.clock.startedAt, saved.rate)
+      : saved.frames;
+
+    const undoKeys: (keyof UndoState)[] = clockMoved ? [...keys, "frames"] : keys;
+    if (undoKeys.length) history.record("Impostazioni", undoKeys);
+    applyUndoState({
+      markers: saved.markers,
+      rate: saved.rate,
+      startTC: saved.startTC,
+      categories: saved.categories,
+      pendingIn: saved.pendingIn,
+      edl: saved.edl,
+      ...(clockMoved ? { frames: nextFrames } : null),
+    });
+    setCaptureMode(saved.captureMode);
+    setPreRoll(saved.preRoll);
+    nextMarkerId.current =
+      saved.markers.reduce((max, m) => Math.max(max, m.id), 0) + 1;
+  };
+
+  const syncRef = useRef(syncFromStorage);
+  useEffect(() => {
+    syncRef.current = syncFromStorage;
+  });
+
+  // Titolo/progetto possono essere cambiati dalla libreria, la sessione dalle impostazioni
+  useFocusEffect(
+    useCallback(() => {
+      focusedRef.current = true;
+      const id = sessionIdRef.current;
+      if (id) {
+        getSessionMeta(id).then((meta) => {
+          if (meta && sessionIdRef.current === meta.id) setSession(meta);
+        });
+        loadSession(id).then((saved) => {
+          if (!saved || sessionIdRef.current !== id) return;
+          if (saved.savedAt !== lastSavedAt.current) syncRef.current(saved);
+        });
+      }
+      return () => {
+        focusedRef.current = false;
+      };
+    }, [])
+  );
+
+  useEffect(() => {
+    if (!hydrated) return;
+    const t = setTimeout(() => {
+      persistNow();
+    }, SESSION_SAVE_DEBOUNCE_MS);
+    return () => clearTimeout(t);
+  }, [hydrated, markers, pausedFrames, startTC, rate, summary, sortMode, categories, captureMode, preRoll, pendingIn, edl, csvOptions, playing]);
+
+  // L'OS può chiudere l'app in background: salva subito, senza debounce
+  useEffect(() => {
+    if (!hydrated) return;
+    const sub = AppState.addEventListener("change", (state) => {
+      if (state !== "active") persistNow();
+    });
+    return () => sub.remove();
+  }, [hydrated]);
+
+  const openLibrary = async () => {
+    await persistNow();
+    router.push({ pathname: "/sessions", params: { theme } });
+  };
+
+  const openSettings = async () => {
+    await persistNow();
+    router.push({ pathname: "/settings", params: { theme } });
+  };
+
 /* ---------- Markers ordinati per UI ---------- */
 
 
@@ -1299,8 +1530,7 @@ const generateSummary = async () => {
       {/* TOP BAR (logo left, FPS right) */}
       <View style={styles.topBar}>
         <View style={styles.topBarLeft}>
-          {page === "home" ? (
-                    <Image
+          <Image
             source={
               theme === "dark"
                 ? require("../assets/images/header-dark.png")
@@ -1309,22 +1539,35 @@ const generateSummary = async () => {
             resizeMode="contain"
             style={styles.topBarLogo}
           />
-        ) : (
-          <View style={{ flexDirection: "row", alignItems: "center", gap: 10 }}>
-            <Pressable onPress={() => setPage("home")} hitSlop={10} style={{ paddingVertical: 4, paddingRight: 6 }}>
-              <ArrowLeft size={22} color={ui.text} weight="bold" />
-            </Pressable>
-            <Text style={{ color: ui.text, fontWeight: "900", fontSize: 16 }}>Impostazioni</Text>
-          </View>
-        )}</View>
+        </View>
 
-        <View style={styles.topBarRight}>
-          <Text style={styles.fpsBadgeText}>{fps} fps</Text>
+        <View style={{ flexDirection: "row", alignItems: "center", gap: 4 }}>
+          <IconButton
+            styles={styles}
+            flat
+            size={34}
+            disabled={!history.canUndo}
+            icon={<ArrowUUpLeft size={20} color={ui.text} weight="bold" />}
+            onPress={undo}
+            haptic="none"
+          />
+          <IconButton
+            styles={styles}
+            flat
+            size={34}
+            disabled={!history.canRedo}
+            icon={<ArrowUUpRight size={20} color={ui.text} weight="bold" />}
+            onPress={redo}
+            haptic="none"
+          />
+          <View style={styles.topBarRight}>
+            <Text style={styles.fpsBadgeText}>{rateLabel(rate)} fps</Text>
+          </View>
         </View>
       </View>
 
-      {page === "home" ? (
       <ScrollView
+        ref={scrollRef}
         contentContainerStyle={styles.content}
         showsVerticalScrollIndicator={false}
       >
@@ -1333,7 +1576,15 @@ const generateSummary = async () => {
 
         {/* TIMECODE */}
 <View style={styles.hero}>
-          <Text style={styles.tc}>{framesToTimecode(frames, fps)}</Text>
+          {session && (
+            <Text style={styles.sessionTitle} numberOfLines={1}>
+              {[session.title, session.project, session.reel].filter(Boolean).join(" • ")}
+            </Text>
+          )}
+          {/* tieni premuto il timecode per annullare l'ultima operazione */}
+          <Pressable onLongPress={undo} delayLongPress={600}>
+            <Text style={styles.tc}>{framesToTimecode(frames, rate)}</Text>
+          </Pressable>
           <Text style={styles.tcHint}>
             Start: <Text style={{ fontWeight: "800" }}>{startTC}</Text>
           </Text>
@@ -1361,8 +1612,13 @@ const generateSummary = async () => {
               <IconButton
                 styles={styles}
                 variant="primary"
-                icon={<MapPin size={26} color={ui.text} weight="bold" />}
+                icon={<MapPin size={26} color={ui.text} weight={pendingIn !== null || holdIn !== null ? "fill" : "bold"} />}
                 onPress={capture}
+                onPressIn={() => {
+                  pressInFrames.current = frames;
+                }}
+                onLongPress={beginHoldCapture}
+                onPressOut={endHoldCapture}
                 haptic="medium"
               />
             </Animated.View>
@@ -1384,6 +1640,22 @@ const generateSummary = async () => {
 
           </View>
 
+          {/* Intervallo in corso (due tocchi o hold) */}
+          {(pendingIn !== null || holdIn !== null) && (
+            <Pressable
+              onPress={() => setPendingIn(null)}
+              disabled={holdIn !== null}
+              style={styles.rangePending}
+            >
+              <Text style={styles.rangePendingText}>
+                IN {framesToTimecode(holdIn ?? pendingIn ?? 0, rate)} •{" "}
+                {holdIn !== null
+                  ? "rilascia per chiudere l'intervallo"
+                  : "tocca il marker per l'OUT (qui per annullare)"}
+              </Text>
+            </Pressable>
+          )}
+
           {/* Nudge controls */}
           <View style={[styles.row, styles.nudgeRow]}>
             <IconNudge
@@ -1513,24 +1785,44 @@ const generateSummary = async () => {
             <Text style={styles.empty}>Nessun marker</Text>
           )}
 
-          {sortedMarkers.map((m, index) => (
+          {sortedMarkers.map((m, index) => {
+            const cat = findCategory(categories, m.category);
+            const color = cat ? MARKER_COLORS[cat.color] : null;
+            const shot = shotAt(edl, m.frames);
+            return (
             <View key={m.id} style={styles.markerRow}>
-              {/* NUMERINO A SINISTRA */}
-              <View style={styles.markerIndex}>
-                <Text style={styles.markerIndexText}>{index + 1}</Text>
+              {/* NUMERINO A SINISTRA (colore = categoria) */}
+              <View
+                style={[
+                  styles.markerIndex,
+                  color && { backgroundColor: color.hex, borderColor: color.hex },
+                ]}
+              >
+                <Text style={[styles.markerIndexText, color && { color: color.onColor }]}>
+                  {index + 1}
+                </Text>
               </View>
 
               {/* TC + COMMENTO */}
               <TouchableOpacity
                 activeOpacity={0.85}
                 style={{ flex: 1 }}
-                onPress={() => {
-                  setEditing(m);
-                  setComment(m.comment);
-                }}
+                onPress={() => openEditor(m)}
               >
-                <Text style={styles.markerTc}>{framesToTimecode(m.frames, fps)}</Text>
+                <Text style={styles.markerTc}>{framesToTimecode(m.frames, rate)}</Text>
+                {isRange(m) && (
+                  <Text style={styles.markerRange}>
+                    → {framesToTimecode(markerOut(m), rate)} • {durationToTimecode(m.duration, rate)}
+                  </Text>
+                )}
+                {edl && shot && (
+                  <Text style={styles.markerRange} numberOfLines={1}>
+                    {formatShot(shot)} • {sourceTimecode(edl, shot, rate)}
+                  </Text>
+                )}
                 <Text style={styles.markerComment} numberOfLines={1}>
+                  {cat ? `${cat.label} • ` : ""}
+                  {m.status ? `${MARKER_STATUS_LABELS[m.status]} • ` : ""}
                   {m.comment?.trim() ? m.comment : "Aggiungi un commento…"}
                 </Text>
               </TouchableOpacity>
@@ -1541,10 +1833,7 @@ const generateSummary = async () => {
                   flat
                   size={34}
                   icon={<PencilSimple size={20} color={ui.primary} weight="bold" />}
-                  onPress={() => {
-                    setEditing(m);
-                    setComment(m.comment);
-                  }}
+                  onPress={() => openEditor(m)}
                   haptic="light"
                 />
                 <IconButton
@@ -1557,7 +1846,8 @@ const generateSummary = async () => {
                 />
               </View>
             </View>
-          ))}
+            );
+          })}
 
           {loadingSummary && (
             <Text style={{ marginTop: 10, color: ui.subtext }}>
@@ -1572,100 +1862,7 @@ const generateSummary = async () => {
             </View>
           )}
         </Card>
-            </ScrollView>
-    ) : (
-      <ScrollView
-        contentContainerStyle={styles.content}
-        showsVerticalScrollIndicator={false}
-      >
-
-        {/* SETTINGS */}
-                <Card styles={styles}>
-                  <Text style={styles.sectionTitle}>Impostazioni</Text>
-
-                  <View style={styles.toggleRow}>
-                    <Text style={styles.toggleText}>Tema scuro</Text>
-                    <Switch
-                      value={theme === "dark"}
-                      onValueChange={(v) => setTheme(v ? "dark" : "light")}
-                      trackColor={{
-                        false: ui.border,
-                        true: ui.primary,
-                      }}
-                      thumbColor={
-                        Platform.OS === "android"
-                          ? theme === "dark"
-                            ? "#FFFFFF"
-                            : "#E5E7EB"
-                          : undefined
-                      }
-                    />
-                  </View>
-                  <Divider styles={styles} />
-
-                  <View style={styles.field}>
-                    <Text style={styles.label}>FPS</Text>
-
-                    <View
-                      style={{ flexDirection: "row", gap: 8, marginTop: 4 }}
-                      pointerEvents={playing ? "none" : "auto"}
-                    >
-                      {[24, 25, 30].map((v) => {
-                        const active = fps === v;
-
-                        return (
-                          <Pressable
-                            key={v}
-                            onPress={() => changeFps(v)}
-                            disabled={playing}
-                            style={[
-                              styles.fpsRadio,
-                              active && styles.fpsRadioActive,
-                              playing && { opacity: 0.55 },
-                            ]}
-                          >
-                            <Text
-                              style={[
-                                styles.fpsRadioText,
-                                active && styles.fpsRadioTextActive,
-                              ]}
-                            >
-                              {v}
-                            </Text>
-                          </Pressable>
-                        );
-                      })}
-                    </View>
-                  </View>
-
-
-                  <View style={styles.field}>
-                    <Text style={styles.label}>Start Timecode</Text>
-                    <Pressable onPress={openTcModal} style={styles.input}>
-                      <Text style={{ color: ui.text, fontWeight: "900" }}>{startTC}</Text>
-                      <Text style={{ color: ui.subtext, marginTop: 4, fontSize: 12 }}>
-                        Tocca per impostare (HH:MM:SS:FF)
-                      </Text>
-                    </Pressable>
-                  </View>
-
-                  <PillButton
-                    styles={styles}
-                    label="Rivedi tutorial"
-                    onPress={async () => {
-                      try { await AsyncStorage.removeItem(TOUR_FIRST_RUN_KEY); } catch {}
-                      startTour();
-                    }}
-                    variant="secondary"
-                    style={{ marginTop: 12 }}
-                    haptic="light"
-                  />
-                </Card>
-
-        
       </ScrollView>
-    )}
-
 
       {/* MODAL NOME FILE (Android e fallback) */}
       <Modal
@@ -1686,7 +1883,7 @@ const generateSummary = async () => {
             </View>
 
             <Text style={styles.modalSubtitle}>
-              Inserisci il nome (senza estensione).
+              Inserisci il nome senza estensione: .{nameExt} viene aggiunto da solo.
             </Text>
 
             <TextInput
@@ -1713,171 +1910,516 @@ const generateSummary = async () => {
         </View>
       </Modal>
 
-      {/* MODAL START TIMECODE */}
+      {/* MODAL EXPORT (chiudibile senza scelta) */}
       <Modal
-        visible={tcModalOpen}
+        visible={exportModalVisible}
         transparent
         animationType="fade"
         presentationStyle="overFullScreen"
         statusBarTranslucent
+        onRequestClose={closeExportModal}
+      >
+        {/* tappando sul backdrop chiudi */}
+        <Pressable style={styles.modalBg} onPress={closeExportModal}>
+          {/* tap dentro NON chiude */}
+          <Pressable style={styles.modal} onPress={() => {}}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Esporta markers</Text>
+              <TouchableOpacity onPress={closeExportModal} hitSlop={10}>
+                <Text style={styles.close}>Chiudi</Text>
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.modalSubtitle}>
+              Scegli un formato oppure chiudi.
+            </Text>
+
+            {/* l'elenco dei formati scorre sugli schermi bassi */}
+            <ScrollView style={styles.exportList} showsVerticalScrollIndicator={false}>
+              <PillButton
+                styles={styles}
+                label="TXT"
+                onPress={() => chooseExport("txt")}
+                variant="primary"
+                style={{ marginTop: 10 }}
+                haptic="light"
+              />
+
+              <PillButton
+                styles={styles}
+                label="PDF"
+                onPress={() => chooseExport("pdf")}
+                variant="secondary"
+                style={{ marginTop: 10 }}
+                haptic="light"
+              />
+
+              <PillButton
+                styles={styles}
+                label="CSV / TSV (foglio di calcolo)"
+                onPress={() => chooseExport("csv")}
+                variant="secondary"
+                style={{ marginTop: 10 }}
+                haptic="light"
+              />
+
+              <PillButton
+                styles={styles}
+                label="Excel (XLSX)"
+                onPress={() => chooseExport("xlsx")}
+                variant="secondary"
+                style={{ marginTop: 10 }}
+                haptic="light"
+              />
+
+              <PillButton
+                styles={styles}
+                label="Sottotitoli SRT"
+                onPress={() => chooseExport("srt")}
+                variant="secondary"
+                style={{ marginTop: 10 }}
+                haptic="light"
+              />
+
+              <PillButton
+                styles={styles}
+                label="Sottotitoli WebVTT"
+                onPress={() => chooseExport("vtt")}
+                variant="secondary"
+                style={{ marginTop: 10 }}
+                haptic="light"
+              />
+
+              <PillButton
+                styles={styles}
+                label="Capitoli YouTube"
+                onPress={() => chooseExport("youtube")}
+                variant="secondary"
+                style={{ marginTop: 10 }}
+                haptic="light"
+              />
+
+              <PillButton
+                styles={styles}
+                label="Capitoli ffmpeg (FFMETADATA)"
+                onPress={() => chooseExport("ffmetadata")}
+                variant="secondary"
+                style={{ marginTop: 10 }}
+                haptic="light"
+              />
+
+              <PillButton
+                styles={styles}
+                label="Avid (marker list)"
+                onPress={() => chooseExport("avid")}
+                variant="secondary"
+                style={{ marginTop: 10 }}
+                haptic="light"
+              />
+
+              <PillButton
+                styles={styles}
+                label="DaVinci Resolve (EDL)"
+                onPress={() => chooseExport("resolve")}
+                variant="secondary"
+                style={{ marginTop: 10 }}
+                haptic="light"
+              />
+
+              <PillButton
+                styles={styles}
+                label="Premiere Pro (CSV)"
+                onPress={() => chooseExport("premiere-csv")}
+                variant="secondary"
+                style={{ marginTop: 10 }}
+                haptic="light"
+              />
+
+              <PillButton
+                styles={styles}
+                label="Premiere Pro (XML)"
+                onPress={() => chooseExport("premiere-xml")}
+                variant="secondary"
+                style={{ marginTop: 10 }}
+                haptic="light"
+              />
+
+              <PillButton
+                styles={styles}
+                label="Final Cut Pro (FCPXML)"
+                onPress={() => chooseExport("fcpxml")}
+                variant="secondary"
+                style={{ marginTop: 10 }}
+                haptic="light"
+              />
+
+              <PillButton
+                styles={styles}
+                label="OpenTimelineIO (OTIO)"
+                onPress={() => chooseExport("otio")}
+                variant="secondary"
+                style={{ marginTop: 10 }}
+                haptic="light"
+              />
+
+              <PillButton
+                styles={styles}
+                label="Audacity (label track)"
+                onPress={() => chooseExport("audacity")}
+                variant="secondary"
+                style={{ marginTop: 10 }}
+                haptic="light"
+              />
+
+              <PillButton
+                styles={styles}
+                label="Reaper (marker / regioni CSV)"
+                onPress={() => chooseExport("reaper")}
+                variant="secondary"
+                style={{ marginTop: 10 }}
+                haptic="light"
+              />
+
+              <PillButton
+                styles={styles}
+                label="Pro Tools (memory locations)"
+                onPress={() => chooseExport("protools")}
+                variant="secondary"
+                style={{ marginTop: 10 }}
+                haptic="light"
+              />
+
+              <PillButton
+                styles={styles}
+                label="Sessione FrameMark (JSON)"
+                onPress={() => chooseExport("framemark")}
+                variant="secondary"
+                style={{ marginTop: 10 }}
+                haptic="light"
+              />
+
+              <PillButton
+                styles={styles}
+                label="Copia negli appunti"
+                onPress={() => chooseExport("clip")}
+                variant="secondary"
+                style={{ marginTop: 10 }}
+                haptic="light"
+              />
+            </ScrollView>
+
+            <PillButton
+              styles={styles}
+              label="Annulla"
+              onPress={closeExportModal}
+              variant="secondary"
+              style={{ marginTop: 10 }}
+              haptic="none"
+            />
+          </Pressable>
+        </Pressable>
+      </Modal>
+
+
+      {/* MODAL REPORT PDF */}
+      <Modal
+        visible={reportModalVisible}
+        transparent
+        animationType="fade"
+        presentationStyle="overFullScreen"
+        statusBarTranslucent
+        onRequestClose={() => setReportModalVisible(false)}
       >
         <View style={styles.modalBg}>
           <View style={styles.modal}>
             <View style={styles.modalHeader}>
-              <Text style={styles.modalTitle}>Imposta Start TC</Text>
-              <TouchableOpacity onPress={() => setTcModalOpen(false)} hitSlop={10}>
-                <Text style={styles.close}>Annulla</Text>
+              <Text style={styles.modalTitle}>Report PDF</Text>
+              <TouchableOpacity onPress={() => setReportModalVisible(false)} hitSlop={10}>
+                <Text style={styles.close}>Chiudi</Text>
               </TouchableOpacity>
             </View>
 
-            <Text style={styles.modalSubtitle}>HH : MM : SS : FF</Text>
+            <ScrollView style={styles.exportList} showsVerticalScrollIndicator={false}>
+              <Text style={[styles.label, { marginTop: 12 }]}>Template</Text>
+              <View style={styles.categoryChips}>
+                {reportTemplates.map((t) => {
+                  const active = t.id === reportDraft.id;
+                  return (
+                    <Pressable
+                      key={t.id}
+                      onPress={() => setReportDraft(t)}
+                      style={[styles.sortPill, styles.categoryChip, active && styles.sortPillActive]}
+                    >
+                      <Text style={[styles.sortPillText, active && styles.sortPillTextActive]}>
+                        {t.name}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
 
-            <Text style={styles.tcPreview}>
-              {String(tcH).padStart(2, "0")}:{String(tcM).padStart(2, "0")}:
-              {String(tcS).padStart(2, "0")}:{String(tcF).padStart(2, "0")}
-            </Text>
+              <View style={styles.field}>
+                <Text style={styles.label}>Nome template</Text>
+                <TextInput
+                  value={reportDraft.name}
+                  onChangeText={(name) => patchReport({ name })}
+                  placeholderTextColor={ui.placeholder}
+                  style={styles.input}
+                />
+              </View>
 
-            <View style={styles.tcRow}>
-              <View style={styles.tcCol}>
-                <Text style={styles.wheelLabel}>HH</Text>
-                <View style={[styles.wheelBox, styles.wheelBoxTight]}>
-                  <Wheel
-                    value={tcH}
-                    onChange={setTcH}
-                    count={24}
-                    textStyle={{ fontWeight: "900", color: ui.text }}
-                    highlightBg={ui.summaryBg}
-                    highlightBorder={ui.summaryBorder}
-                  />
-                </View>
+              <View style={styles.field}>
+                <Text style={styles.label}>Titolo / progetto</Text>
+                <TextInput
+                  value={reportDraft.title}
+                  onChangeText={(title) => patchReport({ title })}
+                  placeholder={session?.title || "Titolo della sessione"}
+                  placeholderTextColor={ui.placeholder}
+                  style={styles.input}
+                />
               </View>
 
-              <View style={styles.tcCol}>
-                <Text style={styles.wheelLabel}>MM</Text>
-                <View style={[styles.wheelBox, styles.wheelBoxTight]}>
-                  <Wheel
-                    value={tcM}
-                    onChange={setTcM}
-                    count={60}
-                    textStyle={{ fontWeight: "900", color: ui.text }}
-                    highlightBg={ui.summaryBg}
-                    highlightBorder={ui.summaryBorder}
-                  />
-                </View>
+              <View style={styles.field}>
+                <Text style={styles.label}>Reviewer</Text>
+                <TextInput
+                  value={reportDraft.reviewer}
+                  onChangeText={(value) => patchReport({ reviewer: value })}
+                  placeholder={reviewer || "Nome del reviewer"}
+                  placeholderTextColor={ui.placeholder}
+                  style={styles.input}
+                />
               </View>
 
-              <View style={styles.tcCol}>
-                <Text style={styles.wheelLabel}>SS</Text>
-                <View style={[styles.wheelBox, styles.wheelBoxTight]}>
-                  <Wheel
-                    value={tcS}
-                    onChange={setTcS}
-                    count={60}
-                    textStyle={{ fontWeight: "900", color: ui.text }}
-                    highlightBg={ui.summaryBg}
-                    highlightBorder={ui.summaryBorder}
+              <View style={styles.field}>
+                <Text style={styles.label}>Logo cliente</Text>
+                {reportDraft.logo && (
+                  <Image
+                    source={{ uri: reportDraft.logo }}
+                    style={{ height: 48, width: 160, marginBottom: 8 }}
+                    resizeMode="contain"
                   />
+                )}
+                <View style={{ flexDirection: "row", gap: 8 }}>
+                  <PillButton
+                    styles={styles}
+                    label={reportDraft.logo ? "Cambia logo" : "Scegli immagine"}
+                    onPress={pickReportLogo}
+                    variant="secondary"
+                    style={{ flex: 1 }}
+                    haptic="light"
+                  />
+                  {reportDraft.logo && (
+                    <PillButton
+                      styles={styles}
+                      label="Rimuovi"
+                      onPress={() => patchReport({ logo: null })}
+                      variant="secondary"
+                      style={{ flex: 1 }}
+                      haptic="light"
+                    />
+                  )}
                 </View>
               </View>
 
-              <View style={styles.tcCol}>
-                <Text style={styles.wheelLabel}>FF</Text>
-                <View style={[styles.wheelBox, styles.wheelBoxTight]}>
-                  <Wheel
-                    key={`ff-${fps}`}
-                    value={Math.min(tcF, Math.max(0, fps - 1))}
-                    onChange={setTcF}
-                    count={Math.max(1, fps)}
-                    textStyle={{ fontWeight: "900", color: ui.text }}
-                    highlightBg={ui.summaryBg}
-                    highlightBorder={ui.summaryBorder}
+              <Text style={[styles.label, { marginTop: 12 }]}>Pagina</Text>
+              <View style={styles.categoryChips}>
+                {(
+                  [
+                    { label: "A4", patch: { paper: "A4" }, active: reportDraft.paper === "A4" },
+                    { label: "Letter", patch: { paper: "Letter" }, active: reportDraft.paper === "Letter" },
+                    {
+                      label: "Verticale",
+                      patch: { orientation: "portrait" },
+                      active: reportDraft.orientation === "portrait",
+                    },
+                    {
+                      label: "Orizzontale",
+                      patch: { orientation: "landscape" },
+                      active: reportDraft.orientation === "landscape",
+                    },
+                  ] as { label: string; patch: Partial<ReportTemplate>; active: boolean }[]
+                ).map((o) => (
+                  <Pressable
+                    key={o.label}
+                    onPress={() => patchReport(o.patch)}
+                    style={[styles.sortPill, styles.categoryChip, o.active && styles.sortPillActive]}
+                  >
+                    <Text style={[styles.sortPillText, o.active && styles.sortPillTextActive]}>
+                      {o.label}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+
+              <Text style={[styles.label, { marginTop: 12 }]}>Colonne</Text>
+              <View style={styles.categoryChips}>
+                {REPORT_COLUMNS.map((c) => {
+                  const active = reportDraft.columns.includes(c.id);
+                  return (
+                    <Pressable
+                      key={c.id}
+                      onPress={() => toggleReportColumn(c.id)}
+                      style={[styles.sortPill, styles.categoryChip, active && styles.sortPillActive]}
+                    >
+                      <Text style={[styles.sortPillText, active && styles.sortPillTextActive]}>
+                        {c.label}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+
+              {(
+                [
+                  { key: "categoryChips", label: "Pallini colore delle categorie" },
+                  { key: "groupByCategory", label: "Raggruppa per categoria" },
+                  { key: "summaryCover", label: "Riepilogo AI in copertina" },
+                ] as const
+              ).map((o) => (
+                <View key={o.key} style={styles.toggleRow}>
+                  <Text style={[styles.toggleText, { flex: 1 }]}>{o.label}</Text>
+                  <Switch
+                    value={reportDraft[o.key]}
+                    onValueChange={(v) => patchReport({ [o.key]: v })}
+                    trackColor={{ false: ui.border, true: ui.primary }}
                   />
                 </View>
-              </View>
+              ))}
+              {reportDraft.summaryCover && !summary.trim() && (
+                <Text style={styles.help}>Nessun riepilogo generato: la copertina verrà omessa.</Text>
+              )}
 
-              {/* Separators as overlay so they don't take layout space */}
-              <Text style={[styles.tcSep, { left: "25%" }]}>:</Text>
-              <Text style={[styles.tcSep, { left: "50%" }]}>:</Text>
-              <Text style={[styles.tcSep, { left: "75%" }]}>:</Text>
-            </View>
+              <View style={{ flexDirection: "row", gap: 8, marginTop: 12 }}>
+                <PillButton
+                  styles={styles}
+                  label="Salva"
+                  onPress={() => saveReportTemplate(false)}
+                  variant="secondary"
+                  style={{ flex: 1 }}
+                  haptic="light"
+                />
+                <PillButton
+                  styles={styles}
+                  label="Salva come nuovo"
+                  onPress={() => saveReportTemplate(true)}
+                  variant="secondary"
+                  style={{ flex: 1 }}
+                  haptic="light"
+                />
+              </View>
+              <PillButton
+                styles={styles}
+                label="Elimina template"
+                onPress={deleteReportTemplate}
+                variant="secondary"
+                style={{ marginTop: 10 }}
+                haptic="light"
+              />
+            </ScrollView>
 
             <PillButton
               styles={styles}
-              label="Conferma"
-              onPress={confirmTcModal}
+              label="Esporta PDF"
+              onPress={exportReport}
               variant="primary"
               style={{ marginTop: 12 }}
-            
               haptic="light"
             />
           </View>
         </View>
       </Modal>
 
-      {/* MODAL EXPORT (chiudibile senza scelta) */}
+      {/* MODAL OPZIONI CSV */}
       <Modal
-        visible={exportModalVisible}
+        visible={csvModalVisible}
         transparent
         animationType="fade"
         presentationStyle="overFullScreen"
         statusBarTranslucent
-        onRequestClose={closeExportModal}
+        onRequestClose={() => setCsvModalVisible(false)}
       >
-        {/* tappando sul backdrop chiudi */}
-        <Pressable style={styles.modalBg} onPress={closeExportModal}>
-          {/* tap dentro NON chiude */}
-          <Pressable style={styles.modal} onPress={() => {}}>
+        <View style={styles.modalBg}>
+          <View style={styles.modal}>
             <View style={styles.modalHeader}>
-              <Text style={styles.modalTitle}>Esporta markers</Text>
-              <TouchableOpacity onPress={closeExportModal} hitSlop={10}>
+              <Text style={styles.modalTitle}>Export CSV / TSV</Text>
+              <TouchableOpacity onPress={() => setCsvModalVisible(false)} hitSlop={10}>
                 <Text style={styles.close}>Chiudi</Text>
               </TouchableOpacity>
             </View>
 
-            <Text style={styles.modalSubtitle}>
-              Scegli un formato oppure chiudi.
-            </Text>
+            <ScrollView style={styles.exportList} showsVerticalScrollIndicator={false}>
+              <Text style={[styles.label, { marginTop: 12 }]}>Colonne</Text>
+              <View style={styles.categoryChips}>
+                {CSV_COLUMNS.filter((c) => edl || (c.id !== "source" && c.id !== "sourceTc")).map(
+                  (c) => {
+                    const active = csvDraft.columns.includes(c.id);
+                    return (
+                      <Pressable
+                        key={c.id}
+                        onPress={() => toggleCsvColumn(c.id)}
+                        style={[styles.sortPill, styles.categoryChip, active && styles.sortPillActive]}
+                      >
+                        <Text style={[styles.sortPillText, active && styles.sortPillTextActive]}>
+                          {c.label}
+                        </Text>
+                      </Pressable>
+                    );
+                  }
+                )}
+              </View>
 
-            <PillButton
-              styles={styles}
-              label="TXT"
-              onPress={() => chooseExport("txt")}
-              variant="primary"
-              style={{ marginTop: 10 }}
-              haptic="light"
-            />
+              <Text style={[styles.label, { marginTop: 12 }]}>Separatore</Text>
+              <View style={styles.categoryChips}>
+                {CSV_DELIMITERS.map((d) => {
+                  const active = csvDraft.delimiter === d.id;
+                  return (
+                    <Pressable
+                      key={d.label}
+                      onPress={() => setCsvDraft((o) => ({ ...o, delimiter: d.id }))}
+                      style={[styles.sortPill, styles.categoryChip, active && styles.sortPillActive]}
+                    >
+                      <Text style={[styles.sortPillText, active && styles.sortPillTextActive]}>
+                        {d.label}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
 
-            <PillButton
-              styles={styles}
-              label="PDF"
-              onPress={() => chooseExport("pdf")}
-              variant="secondary"
-              style={{ marginTop: 10 }}
-              haptic="light"
-            />
+              {[
+                { key: "header", label: "Riga di intestazione", value: csvDraft.header },
+                { key: "quoting", label: "Virgolette su tutti i campi", value: csvDraft.quoting === "all" },
+                { key: "bom", label: "BOM UTF-8 (accenti corretti in Excel)", value: csvDraft.bom },
+              ].map((o) => (
+                <View key={o.key} style={styles.toggleRow}>
+                  <Text style={[styles.toggleText, { flex: 1 }]}>{o.label}</Text>
+                  <Switch
+                    value={o.value}
+                    onValueChange={(v) =>
+                      setCsvDraft((d) =>
+                        o.key === "quoting"
+                          ? { ...d, quoting: v ? "all" : "auto" }
+                          : { ...d, [o.key]: v }
+                      )
+                    }
+                    trackColor={{ false: ui.border, true: ui.primary }}
+                  />
+                </View>
+              ))}
+            </ScrollView>
 
             <PillButton
               styles={styles}
-              label="Copia negli appunti"
-              onPress={() => chooseExport("clip")}
-              variant="secondary"
-              style={{ marginTop: 10 }}
+              label="Esporta"
+              onPress={exportCsv}
+              variant="primary"
+              style={{ marginTop: 12 }}
               haptic="light"
             />
-
-            <PillButton
-              styles={styles}
-              label="Annulla"
-              onPress={closeExportModal}
-              variant="secondary"
-              style={{ marginTop: 10 }}
-              haptic="none"
-            />
-          </Pressable>
-        </Pressable>
+          </View>
+        </View>
       </Modal>
 
-
       {/* MODAL COMMENTO */}
       <Modal visible={!!editing} transparent animationType="fade">
         <View style={styles.modalBg}>
@@ -1890,7 +2432,7 @@ const generateSummary = async () => {
             </View>
 
             <Text style={styles.modalSubtitle}>
-              {editing ? framesToTimecode(editing.frames, fps) : ""}
+              {editing ? formatMarkerTime({ ...editing, frames: editingFrames }, rate) : ""}
             </Text>
 
             <TextInput
@@ -1902,6 +2444,66 @@ const generateSummary = async () => {
               style={[styles.input, { minHeight: 96 }]}
             />
 
+            <Text style={[styles.label, { marginTop: 12 }]}>Sposta marker</Text>
+            <View style={{ flexDirection: "row", gap: 8 }}>
+              {[
+                { label: "-1s", delta: -fps },
+                { label: "-1f", delta: -1 },
+                { label: "+1f", delta: 1 },
+                { label: "+1s", delta: fps },
+              ].map((n) => (
+                <PillButton
+                  key={n.label}
+                  styles={styles}
+                  label={n.label}
+                  onPress={() => nudgeEditing(n.delta)}
+                  style={{ flex: 1, paddingVertical: 8 }}
+                  haptic="light"
+                />
+              ))}
+            </View>
+
+            <Text style={[styles.label, { marginTop: 12 }]}>Categoria</Text>
+            <View style={styles.categoryChips}>
+              {[null, ...categories].map((c) => {
+                const active = (c?.id ?? null) === editingCategory;
+                return (
+                  <Pressable
+                    key={c?.id ?? "none"}
+                    onPress={() => setEditingCategory(c?.id ?? null)}
+                    style={[styles.sortPill, styles.categoryChip, active && styles.sortPillActive]}
+                  >
+                    {c && (
+                      <View
+                        style={[styles.categoryDot, { backgroundColor: MARKER_COLORS[c.color].hex }]}
+                      />
+                    )}
+                    <Text style={[styles.sortPillText, active && styles.sortPillTextActive]}>
+                      {c ? c.label : "Nessuna"}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            <Text style={[styles.label, { marginTop: 12 }]}>Stato</Text>
+            <View style={styles.categoryChips}>
+              {([null, "open", "done"] as const).map((st) => {
+                const active = st === editingStatus;
+                return (
+                  <Pressable
+                    key={st ?? "none"}
+                    onPress={() => setEditingStatus(st)}
+                    style={[styles.sortPill, styles.categoryChip, active && styles.sortPillActive]}
+                  >
+                    <Text style={[styles.sortPillText, active && styles.sortPillTextActive]}>
+                      {st ? MARKER_STATUS_LABELS[st] : "Nota"}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+
             <PillButton styles={styles}
               label="Salva"
               onPress={saveComment}
@@ -2084,7 +2686,18 @@ const generateSummary = async () => {
           flat
           size={48}
           icon={<House size={25} color={ui.text} weight="bold" />}
-          onPress={() => setPage("home")}
+          onPress={() => scrollRef.current?.scrollTo({ y: 0, animated: true })}
+          haptic="light"
+        />
+</View>
+
+<View ref={libraryAnchorRef} collapsable={false}>
+        <IconButton
+          styles={styles}
+          flat
+          size={48}
+          icon={<Folders size={25} color={ui.text} weight="bold" />}
+          onPress={openLibrary}
           haptic="light"
         />
 </View>
@@ -2095,12 +2708,20 @@ const generateSummary = async () => {
           flat
           size={48}
           icon={<Gear size={25} color={ui.text} weight="bold" />}
-          onPress={() => setPage("settings")}
+          onPress={openSettings}
           haptic="light"
         />
 </View>
       </View>
 
+      <UndoToast
+        message={toastMessage}
+        onUndo={undoToast}
+        onHide={hideToast}
+        bottom={72 + insets.bottom + 12}
+        ui={ui}
+      />
+
       {showFakeSplash && (
         <BreathingGlowSplash onDone={() => setShowFakeSplash(false)} />
       )}
@@ -2190,417 +2811,3 @@ function BreathingGlowSplash({ onDone }: { onDone: () => void }) {
     </View>
   );
 }
-
-
-/* ---------- Styles ---------- */
-
-const createStyles = (UI: ReturnType<typeof getUi>) =>
-  StyleSheet.create({
-    screen: { flex: 1, backgroundColor: UI.bg },
-    content: { padding: 16, paddingTop: 12, paddingBottom: 100 },
-
-    header: {
-      flexDirection: "row",
-      alignItems: "center",
-      gap: 12,
-      marginBottom: 14,
-    },
-    title: { fontSize: 28, fontWeight: "900", color: UI.text, letterSpacing: 0.2 },
-    subtitle: { marginTop: 2, color: UI.subtext, fontSize: 13 },
-
-    badge: {
-      paddingHorizontal: 10,
-      paddingVertical: 6,
-      borderRadius: 999,
-      backgroundColor: UI.surface,
-      borderWidth: 1,
-      borderColor: UI.border,
-    },
-    badgeText: { color: UI.text, fontWeight: "800", fontSize: 12 },
-
-    card: {
-      backgroundColor: UI.card,
-      borderRadius: 18,
-      padding: 14,
-      marginBottom: 14,
-      borderWidth: 1,
-      borderColor: UI.border,
-      shadowColor: "#000",
-      shadowOpacity: 0.06,
-      shadowRadius: 18,
-      shadowOffset: { width: 0, height: 10 },
-      elevation: 2,
-    },
-
-    tc: {
-      fontSize: 46,
-      fontWeight: "900",
-      textAlign: "center",
-      color: UI.text,
-      letterSpacing: 1.6,
-    },
-    tcHint: { textAlign: "center", marginTop: 6, color: UI.subtext, fontSize: 13 },
-
-    row: { flexDirection: "row", gap: 10, marginTop: 12 },
-
-    nudgeRow: {
-      flexDirection: "row",
-      justifyContent: "center",
-      gap: 20,          // ← regola qui quanto li vuoi compatti
-      marginTop: 14,
-    },
-
-    nudgeWrap: { alignItems: "center" },
-    nudgeLabel: {
-      marginTop: 6,
-      fontSize: 11,
-      fontWeight: "900",
-      color: UI.subtext,
-      letterSpacing: 0.2,
-      alignItems: "center",
-      gap : 2
-    },
-
-
-    pillBtn: {
-      paddingVertical: 12,
-      paddingHorizontal: 12,
-      borderRadius: 999,
-      borderWidth: 1,
-      borderColor: UI.border,
-      backgroundColor: UI.surface,
-      alignItems: "center",
-      justifyContent: "center",
-    },
-    pillPrimary: {
-      backgroundColor: UI.primary,
-      shadowColor: "#000",
-      shadowOffset: { width: 0, height: 8 },
-      borderColor: "rgba(227, 183, 74, 0.35)", // oppure lascia il tuo blu se non hai cambiato palette
-      shadowOpacity: 0.12,
-      shadowRadius: 12
-    },
-    pillDanger: {
-      backgroundColor: "transparent",
-      borderColor: "rgba(239, 68, 68, 0.6)",
-    },
-    pillText: { color: UI.text, fontWeight: "800", fontSize: 13 },
-    pillTextOnPrimary: {
-      color: "#FFFFFF",
-      fontWeight: "800",
-    },
-    pillTextDanger: {
-      color: UI.danger,
-      fontWeight: "800",
-    },
-
-    iconBtn: {
-      borderRadius: 999,
-      borderWidth: 1,
-      borderColor: UI.border,
-      backgroundColor: UI.surface,
-      alignItems: "center",
-      justifyContent: "center",
-    },
-    iconBtnPrimary: {
-      backgroundColor: UI.primary,
-      borderColor: "rgba(227, 183, 74, 0.35)",
-      shadowColor: "#000",
-      shadowOffset: { width: 0, height: 8 },
-      shadowOpacity: 0.12,
-      shadowRadius: 12,
-      elevation: 2,
-    },
-    iconBtnDanger: {
-      backgroundColor: "transparent",
-      borderColor: "rgba(239, 68, 68, 0.6)",
-    },
-
-    // Flat style for bottom navigation icons (no round border/background)
-    bottomIconBtn: {
-      borderRadius: 0,
-      borderWidth: 0,
-      backgroundColor: "transparent",
-    },
-
-    sectionTitle: { fontWeight: "900", color: UI.text, fontSize: 16 },
-    divider: { height: 1, backgroundColor: UI.divider, marginTop: 10 },
-
-    field: { marginTop: 12 },
-    label: { color: UI.subtext, marginBottom: 6, fontWeight: "800", fontSize: 12 },
-    help: { marginTop: 6, color: UI.subtext, fontSize: 12 },
-
-    input: {
-      borderWidth: 1,
-      borderColor: UI.border,
-      borderRadius: 14,
-      padding: 12,
-      color: UI.text,
-      backgroundColor: UI.inputBg,
-    },
-
-    pickerWrap: {
-      borderWidth: 1,
-      borderColor: UI.border,
-      borderRadius: 14,
-      overflow: "hidden",
-      backgroundColor: UI.inputBg,
-    },
-    picker: { color: UI.text },
-    pickerSelected: {
-      marginTop: 6,
-      color: UI.subtext,
-      fontSize: 12,
-      fontWeight: "800",
-    },
-
-    markerHeader: { flexDirection: "row", alignItems: "center", justifyContent: "space-between" },
-    count: { color: UI.subtext, fontWeight: "900" },
-    empty: { marginTop: 10, color: UI.subtext },
-
-    markerRow: {
-      flexDirection: "row",
-      alignItems: "center",
-      gap: 12,
-      paddingVertical: 12,
-    },
-    markerActions: {
-      flexDirection: "row",
-      alignItems: "center",
-      gap: 10,
-      marginLeft: 8,
-    },
-    markerTc: { fontWeight: "900", color: UI.text },
-    markerComment: { marginTop: 2, color: UI.subtext, fontSize: 13 },
-    editLink: { color: UI.primary, fontWeight: "800", fontSize: 13 },
-
-    summaryBox: {
-      marginTop: 12,
-      padding: 12,
-      borderRadius: 14,
-      backgroundColor: UI.summaryBg,
-      borderWidth: 1,
-      borderColor: UI.summaryBorder,
-    },
-    summaryTitle: { fontWeight: "900", marginBottom: 6, color: UI.text },
-    summaryText: { color: UI.subtext, lineHeight: 20 },
-
-    modalBg: {
-      flex: 1,
-      backgroundColor: UI.overlay,
-      justifyContent: "center",
-      padding: 20,
-    },
-    modal: {
-      backgroundColor: UI.modal,
-      borderRadius: 18,
-      padding: 14,
-      borderWidth: 1,
-      borderColor: UI.border,
-      shadowColor: "#000",
-      shadowOpacity: 0.08,
-      shadowRadius: 24,
-      shadowOffset: { width: 0, height: 14 },
-      elevation: 3,
-    },
-    modalHeader: {
-      flexDirection: "row",
-      justifyContent: "space-between",
-      alignItems: "center",
-    },
-    modalTitle: { color: UI.text, fontWeight: "900", fontSize: 16 },
-    modalSubtitle: { marginTop: 6, color: UI.subtext, fontSize: 12 },
-    tcPreview: {
-      marginTop: 10,
-      color: UI.text,
-      fontWeight: "900",
-      fontSize: 18,
-      letterSpacing: 0.6,
-    },
-    close: { color: UI.subtext, fontWeight: "800" },
-
-    tcRow: {
-      marginTop: 12,
-      flexDirection: "row",
-      alignItems: "flex-start",
-      justifyContent: "space-between",
-      gap: 8,
-      position: "relative",
-      width: "100%",
-    },
-    tcCol: {
-      flex: 1,
-      minWidth: 64,
-      maxWidth: 110,
-    },
-    tcSep: {
-      position: "absolute",
-      top: 120,
-      transform: [{ translateX: -6 }],
-      color: UI.subtext,
-      fontWeight: "900",
-      fontSize: 22,
-      opacity: 0.55,
-    },
-
-    wheelLabel: {
-      color: UI.subtext,
-      marginBottom: 6,
-      paddingLeft: 6,
-      fontWeight: "800",
-      fontSize: 12,
-    },
-    wheelBox: {
-      borderWidth: 1,
-      borderColor: UI.border,
-      borderRadius: 18,
-      overflow: "hidden",
-      backgroundColor: UI.inputBg,
-      paddingVertical: 10,
-      paddingHorizontal: 6,
-    },
-    wheelBoxTight: {
-      paddingVertical: 8,
-      paddingHorizontal: 4,
-    },
-
-    toggleRow: {
-      flexDirection: "row",
-      alignItems: "center",
-      justifyContent: "space-between",
-      paddingVertical: 8,
-    },
-    toggleText: { color: UI.text, fontWeight: "800" },
-
-    // toggle ordinamento markers
-    sortRow: {
-      marginTop: 8,
-      marginBottom: 4,
-      flexDirection: "row",
-      alignItems: "center",
-      justifyContent: "space-between",
-    },
-    sortLabel: {
-      color: UI.subtext,
-      fontSize: 12,
-      fontWeight: "800",
-    },
-    sortPills: {
-      flexDirection: "row",
-      gap: 6,
-    },
-    sortPill: {
-      borderRadius: 999,
-      paddingVertical: 4,
-      paddingHorizontal: 10,
-      borderWidth: 1,
-      borderColor: UI.border,
-      backgroundColor: UI.surface,
-    },
-    sortPillActive: {
-      borderColor: UI.primary,
-      backgroundColor: UI.summaryBg,
-    },
-    sortPillText: {
-      fontSize: 11,
-      fontWeight: "800",
-      color: UI.subtext,
-    },
-    sortPillTextActive: {
-      color: UI.primary,
-    },
-
-    markerIndex: {
-      width: 26,
-      height: 26,
-      borderRadius: 999,
-      borderWidth: 1,
-      borderColor: UI.border,
-      backgroundColor: UI.surface,
-      alignItems: "center",
-      justifyContent: "center",
-      marginRight: 8,
-    },
-    markerIndexText: {
-      color: UI.text,
-      fontWeight: "900",
-      fontSize: 12,
-    },
-    fpsRadio: {
-  flex: 1,
-  paddingVertical: 10,
-  borderRadius: 999,
-  borderWidth: 1,
-  borderColor: UI.border,
-  backgroundColor: UI.surface,
-  alignItems: "center",
-},
-
-fpsRadioActive: {
-  backgroundColor: UI.summaryBg,
-  borderColor: UI.primary,
-},
-
-fpsRadioText: {
-  fontWeight: "800",
-  color: UI.subtext,
-  fontSize: 13,
-},
-
-fpsRadioTextActive: {
-  color: UI.primary,
-},
-topBar: {
-  height: 52,
-  paddingHorizontal: 16,
-  flexDirection: "row",
-  alignItems: "center",
-  justifyContent: "space-between",
-  backgroundColor: UI.bg,
-},
-
-topBarLeft: {
-  flexDirection: "row",
-  alignItems: "center",
-},
-
-topBarLogo: {
-  width: 120,
-  height: 100,
-  marginTop: 15, // prova 4–8 px
-},
-
-topBarRight: {
-  paddingHorizontal: 10,
-  paddingVertical: 4,
-  borderRadius: 999,
-  backgroundColor: UI.surface,
-  borderWidth: 1,
-  borderColor: UI.border,
-},
-
-fpsBadgeText: {
-  color: UI.text,
-  fontWeight: "800",
-  fontSize: 12,
-},
-hero: {
-  marginBottom: 28,
-  paddingVertical: 8,
-},
-
-    bottomBar: {
-      position: "absolute",
-      left: 0,
-      right: 0,
-      bottom: 0,
-      height: 72,
-      flexDirection: "row",
-      justifyContent: "space-evenly",
-      alignItems: "center",
-      backgroundColor: UI.bg,
-      borderTopWidth: 1,
-      borderTopColor: UI.border,
-      paddingBottom: Platform.OS === "ios" ? 12 : 8,
-    },
-});
\ No newline at end of file
@@ -0,0 +1,558 @@
+import * as FileSystem from "expo-file-system/legacy";
+import { router, useFocusEffect, useLocalSearchParams } from "expo-router";
+import * as Sharing from "expo-sharing";
+import { StatusBar } from "expo-status-bar";
+import {
+  Archive,
+  ArrowLeft,
+  ArrowUUpLeft,
+  Copy,
+  FileZip,
+  PencilSimple,
+  Plus,
+  Trash,
+} from "phosphor-react-native";
+import React, { useCallback, useMemo, useState } from "react";
+import {
+  Alert,
+  Modal,
+  Platform,
+  Pressable,
+  ScrollView,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+import { Card, Divider, IconButton, PillButton } from "@/components/controls";
+import { getUi, ThemeName } from "@/constants/palette";
+import { createStyles } from "@/constants/styles";
+import { directoryFiles, directoryLabel, nextFreeFileName, writeToDirectory } from "@/lib/files";
+import {
+  exportLibraryZip,
+  LIBRARY_EXPORT_FORMATS,
+  LibraryExportFormat,
+} from "@/lib/library-export";
+import {
+  getExportDirectory,
+  getLastReportTemplateId,
+  getReportTemplates,
+  getReviewer,
+} from "@/lib/prefs";
+import {
+  createSession,
+  deleteSession,
+  duplicateSession,
+  getActiveSessionId,
+  listSessions,
+  SessionFields,
+  SessionMeta,
+  setActiveSessionId,
+  updateSessionMeta,
+} from "@/lib/session";
+import { rateLabel } from "@/lib/timecode";
+
+const EMPTY_FIELDS: SessionFields = { title: "", project: "", reel: "" };
+
+export default function SessionsScreen() {
+  const params = useLocalSearchParams<{ theme?: ThemeName }>();
+  const theme: ThemeName = params.theme === "light" ? "light" : "dark";
+  const ui = useMemo(() => getUi(theme), [theme]);
+  const styles = useMemo(() => createStyles(ui), [ui]);
+
+  const [sessions, setSessions] = useState<SessionMeta[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+
+  // Form crea / modifica (null = chiuso, "new" = nuova sessione)
+  const [formTarget, setFormTarget] = useState<SessionMeta | "new" | null>(null);
+  const [form, setForm] = useState<SessionFields>(EMPTY_FIELDS);
+
+  const refresh = useCallback(async () => {
+    const [list, active] = await Promise.all([listSessions(), getActiveSessionId()]);
+    setSessions(list);
+    setActiveId(active);
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      refresh();
+    }, [refresh])
+  );
+
+  const visible = useMemo(
+    () =>
+      [...sessions]
+        .filter((s) => s.archived === showArchived)
+        .sort((a, b) => b.createdAt - a.createdAt),
+    [sessions, showArchived]
+  );
+
+  const archivedCount = sessions.filter((s) => s.archived).length;
+
+  // Export di tutta la libreria: formati scelti e avanzamento (null = fermo)
+  const [zipModalVisible, setZipModalVisible] = useState(false);
+  const [zipFormats, setZipFormats] = useState<LibraryExportFormat[]>(["json", "txt", "pdf", "csv"]);
+  const [zipArchived, setZipArchived] = useState(true);
+  const [zipProgress, setZipProgress] = useState<{ done: number; total: number; title: string } | null>(
+    null
+  );
+
+  const zipSessions = sessions.filter((s) => zipArchived || !s.archived);
+
+  const toggleZipFormat = (id: LibraryExportFormat) =>
+    setZipFormats((f) => (f.includes(id) ? f.filter((x) => x !== id) : [...f, id]));
+
+  const openZipModal = () => {
+    if (Platform.OS === "web") {
+      Alert.alert("Esporta tutto", "Export ZIP non supportato su web.");
+      return;
+    }
+    setZipModalVisible(true);
+  };
+
+  const exportAll = async () => {
+    if (zipFormats.length === 0) {
+      Alert.alert("Esporta tutto", "Seleziona almeno un formato.");
+      return;
+    }
+    if (zipSessions.length === 0) {
+      Alert.alert("Esporta tutto", "Nessuna sessione da esportare.");
+      return;
+    }
+
+    setZipProgress({ done: 0, total: zipSessions.length, title: "" });
+    try {
+      const [reviewer, templates, lastId] = await Promise.all([
+        getReviewer(),
+        getReportTemplates(),
+        getLastReportTemplateId(),
+      ]);
+      // ordine del manifest = ordine di creazione
+      const ordered = [...zipSessions].sort((a, b) => a.createdAt - b.createdAt);
+      const result = await exportLibraryZip(ordered, {
+        formats: zipFormats,
+        reviewer,
+        template: templates.find((t) => t.id === lastId) ?? templates[0],
+        onProgress: (done, total, title) => setZipProgress({ done, total, title }),
+      });
+      setZipProgress(null);
+      setZipModalVisible(false);
+
+      if (result.skipped.length > 0) {
+        Alert.alert(
+          "Esporta tutto",
+          `Sessioni escluse dall'archivio: ${result.skipped.map((s) => `${s.title} (${s.reason})`).join(", ")}`
+        );
+      }
+
+      // Android con una cartella di destinazione: l'archivio si copia lì
+      const directory = Platform.OS === "android" ? await getExportDirectory() : null;
+      if (directory) {
+        const files = await directoryFiles(directory);
+        const name = await nextFreeFileName(result.fileName.replace(/\.zip$/, ""), "zip", (n) =>
+          files.has(n)
+        );
+        const zip = await FileSystem.readAsStringAsync(result.uri, {
+          encoding: FileSystem.EncodingType.Base64,
+        });
+        await writeToDirectory(directory, name, zip, FileSystem.EncodingType.Base64);
+        // copiato nella cartella scelta: la copia interna non serve più
+        await FileSystem.deleteAsync(result.uri, { idempotent: true });
+        Alert.alert("Esporta tutto", `Salvato in ${directoryLabel(directory)}: ${name}`);
+        return;
+      }
+
+      const canShare = await Sharing.isAvailableAsync();
+      if (!canShare) {
+        Alert.alert("Export", "Sharing non disponibile su questo dispositivo.");
+        return;
+      }
+      await Sharing.shareAsync(result.uri, { mimeType: "application/zip", UTI: "public.zip-archive" });
+    } catch {
+      setZipProgress(null);
+      Alert.alert("Esporta tutto", "Impossibile creare l'archivio.");
+    }
+  };
+
+  const dateFmt = useMemo(
+    () => new Intl.DateTimeFormat("it-IT", { dateStyle: "medium", timeStyle: "short" }),
+    []
+  );
+
+  const openSession = async (id: string) => {
+    await setActiveSessionId(id);
+    router.dismissTo({ pathname: "/", params: { session: id } });
+  };
+
+  const goBack = () => {
+    if (router.canGoBack()) router.back();
+    else router.replace("/");
+  };
+
+  const openForm = (target: SessionMeta | "new") => {
+    setForm(
+      target === "new"
+        ? { ...EMPTY_FIELDS, title: `Sessione ${sessions.length + 1}` }
+        : { title: target.title, project: target.project, reel: target.reel }
+    );
+    setFormTarget(target);
+  };
+
+  const confirmForm = async () => {
+    const fields: SessionFields = {
+      title: form.title.trim(),
+      project: form.project.trim(),
+      reel: form.reel.trim(),
+    };
+    if (!fields.title) {
+      Alert.alert("Sessione", "Il titolo è obbligatorio.");
+      return;
+    }
+
+    const target = formTarget;
+    setFormTarget(null);
+    if (target === "new") {
+      // la nuova sessione eredita fps e start TC da quella aperta
+      const base = sessions.find((s) => s.id === activeId);
+      const meta = await createSession(fields, base);
+      await openSession(meta.id);
+      return;
+    }
+    if (target) await updateSessionMeta(target.id, fields);
+    await refresh();
+  };
+
+  const duplicate = async (s: SessionMeta) => {
+    await duplicateSession(s.id);
+    await refresh();
+  };
+
+  const toggleArchived = async (s: SessionMeta) => {
+    await updateSessionMeta(s.id, { archived: !s.archived });
+    await refresh();
+  };
+
+  const confirmDelete = (s: SessionMeta) => {
+    if (s.id === activeId) {
+      Alert.alert(
+        "Sessione aperta",
+        "Apri un'altra sessione prima di eliminare quella in uso."
+      );
+      return;
+    }
+    Alert.alert(
+      "Elimina sessione",
+      `Vuoi eliminare "${s.title}" e i suoi ${s.markerCount} markers? L'operazione non è reversibile.`,
+      [
+        { text: "Annulla", style: "cancel" },
+        {
+          text: "Elimina",
+          style: "destructive",
+          onPress: async () => {
+            await deleteSession(s.id);
+            await refresh();
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.screen}>
+      <StatusBar style={theme === "dark" ? "light" : "dark"} />
+
+      <View style={styles.topBar}>
+        <View style={{ flexDirection: "row", alignItems: "center", gap: 10 }}>
+          <Pressable onPress={goBack} hitSlop={10} style={{ paddingVertical: 4, paddingRight: 6 }}>
+            <ArrowLeft size={22} color={ui.text} weight="bold" />
+          </Pressable>
+          <Text style={{ color: ui.text, fontWeight: "900", fontSize: 16 }}>Sessioni</Text>
+        </View>
+
+        <View style={{ flexDirection: "row", alignItems: "center", gap: 8 }}>
+          <IconButton
+            styles={styles}
+            size={40}
+            icon={<FileZip size={20} color={ui.text} weight="bold" />}
+            onPress={openZipModal}
+            haptic="light"
+          />
+          <IconButton
+            styles={styles}
+            size={40}
+            variant="primary"
+            icon={<Plus size={20} color={ui.text} weight="bold" />}
+            onPress={() => openForm("new")}
+            haptic="light"
+          />
+        </View>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <Card styles={styles}>
+          <View style={styles.markerHeader}>
+            <View style={{ flexDirection: "row", alignItems: "center", gap: 8 }}>
+              <Text style={styles.sectionTitle}>
+                {showArchived ? "Archiviate" : "Libreria"}
+              </Text>
+              <Text style={styles.count}>{visible.length}</Text>
+            </View>
+
+            <View style={{ flexDirection: "row", alignItems: "center", gap: 8 }}>
+              <Text style={styles.sortLabel}>Archiviate ({archivedCount})</Text>
+              <Switch
+                value={showArchived}
+                onValueChange={setShowArchived}
+                trackColor={{ false: ui.border, true: ui.primary }}
+                thumbColor={Platform.OS === "android" ? "#FFFFFF" : undefined}
+              />
+            </View>
+          </View>
+
+          <Divider styles={styles} />
+
+          {visible.length === 0 && (
+            <Text style={styles.empty}>
+              {showArchived ? "Nessuna sessione archiviata" : "Nessuna sessione"}
+            </Text>
+          )}
+
+          {visible.map((s) => {
+            const details = [s.project, s.reel].filter(Boolean).join(" • ");
+            return (
+              <View key={s.id} style={styles.sessionRow}>
+                <TouchableOpacity
+                  activeOpacity={0.85}
+                  style={{ flex: 1 }}
+                  onPress={() => openSession(s.id)}
+                >
+                  <View style={{ flexDirection: "row", alignItems: "center", gap: 8 }}>
+                    <Text style={styles.markerTc} numberOfLines={1}>
+                      {s.title}
+                    </Text>
+                    {s.id === activeId && (
+                      <View style={styles.badge}>
+                        <Text style={styles.badgeText}>Aperta</Text>
+                      </View>
+                    )}
+                  </View>
+                  {!!details && (
+                    <Text style={styles.markerComment} numberOfLines={1}>
+                      {details}
+                    </Text>
+                  )}
+                  <Text style={styles.sessionMeta}>
+                    {rateLabel(s.rate)} fps • Start {s.startTC} • {s.markerCount} markers
+                  </Text>
+                  <Text style={styles.sessionMeta}>{dateFmt.format(new Date(s.createdAt))}</Text>
+                </TouchableOpacity>
+
+                <View style={styles.markerActions}>
+                  <IconButton
+                    styles={styles}
+                    flat
+                    size={34}
+                    icon={<PencilSimple size={20} color={ui.primary} weight="bold" />}
+                    onPress={() => openForm(s)}
+                    haptic="light"
+                  />
+                  <IconButton
+                    styles={styles}
+                    flat
+                    size={34}
+                    icon={<Copy size={20} color={ui.primary} weight="bold" />}
+                    onPress={() => duplicate(s)}
+                    haptic="light"
+                  />
+                  <IconButton
+                    styles={styles}
+                    flat
+                    size={34}
+                    icon={
+                      s.archived ? (
+                        <ArrowUUpLeft size={20} color={ui.primary} weight="bold" />
+                      ) : (
+                        <Archive size={20} color={ui.primary} weight="bold" />
+                      )
+                    }
+                    onPress={() => toggleArchived(s)}
+                    haptic="light"
+                  />
+                  <IconButton
+                    styles={styles}
+                    flat
+                    size={34}
+                    icon={<Trash size={20} color={ui.primary} weight="bold" />}
+                    onPress={() => confirmDelete(s)}
+                    haptic="medium"
+                  />
+                </View>
+              </View>
+            );
+          })}
+        </Card>
+      </ScrollView>
+
+      {/* MODAL ESPORTA TUTTO (ZIP) */}
+      <Modal
+        visible={zipModalVisible}
+        transparent
+        animationType="fade"
+        presentationStyle="overFullScreen"
+        statusBarTranslucent
+        onRequestClose={() => !zipProgress && setZipModalVisible(false)}
+      >
+        <View style={styles.modalBg}>
+          <View style={styles.modal}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Esporta tutto</Text>
+              {!zipProgress && (
+                <TouchableOpacity onPress={() => setZipModalVisible(false)} hitSlop={10}>
+                  <Text style={styles.close}>Annulla</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+
+            {zipProgress ? (
+              <>
+                <Text style={styles.modalSubtitle} numberOfLines={1}>
+                  {zipProgress.done < zipProgress.total
+                    ? `Sessione ${zipProgress.done + 1} di ${zipProgress.total} • ${zipProgress.title}`
+                    : "Creazione dell'archivio…"}
+                </Text>
+                <View style={styles.progressTrack}>
+                  <View
+                    style={[
+                      styles.progressFill,
+                      { width: `${Math.round((zipProgress.done / Math.max(1, zipProgress.total)) * 100)}%` },
+                    ]}
+                  />
+                </View>
+              </>
+            ) : (
+              <>
+                <Text style={styles.modalSubtitle}>
+                  Un archivio ZIP con una cartella per sessione e un manifest.json.
+                </Text>
+
+                <Text style={[styles.label, { marginTop: 12 }]}>Formati</Text>
+                <View style={styles.categoryChips}>
+                  {LIBRARY_EXPORT_FORMATS.map((f) => {
+                    const active = zipFormats.includes(f.id);
+                    return (
+                      <Pressable
+                        key={f.id}
+                        onPress={() => toggleZipFormat(f.id)}
+                        style={[styles.sortPill, styles.categoryChip, active && styles.sortPillActive]}
+                      >
+                        <Text style={[styles.sortPillText, active && styles.sortPillTextActive]}>
+                          {f.label}
+                        </Text>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+
+                <View style={styles.toggleRow}>
+                  <Text style={[styles.toggleText, { flex: 1 }]}>Includi le sessioni archiviate</Text>
+                  <Switch
+                    value={zipArchived}
+                    onValueChange={setZipArchived}
+                    trackColor={{ false: ui.border, true: ui.primary }}
+                  />
+                </View>
+
+                <PillButton
+                  styles={styles}
+                  label={`Crea ZIP (${zipSessions.length} sessioni)`}
+                  onPress={exportAll}
+                  variant="primary"
+                  style={{ marginTop: 12 }}
+                  haptic="light"
+                />
+              </>
+            )}
+          </View>
+        </View>
+      </Modal>
+
+      {/* MODAL CREA / MODIFICA SESSIONE */}
+      <Modal
+        visible={formTarget !== null}
+        transparent
+        animationType="fade"
+        presentationStyle="overFullScreen"
+        statusBarTranslucent
+        onRequestClose={() => setFormTarget(null)}
+      >
+        <View style={styles.modalBg}>
+          <View style={styles.modal}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>
+                {formTarget === "new" ? "Nuova sessione" : "Modifica sessione"}
+              </Text>
+              <TouchableOpacity onPress={() => setFormTarget(null)} hitSlop={10}>
+                <Text style={styles.close}>Annulla</Text>
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.field}>
+              <Text style={styles.label}>Titolo</Text>
+              <TextInput
+                value={form.title}
+                onChangeText={(title) => setForm((f) => ({ ...f, title }))}
+                placeholder="Es. Screening montaggio v3"
+                placeholderTextColor={ui.placeholder}
+                autoFocus
+                style={styles.input}
+              />
+            </View>
+
+            <View style={styles.field}>
+              <Text style={styles.label}>Progetto</Text>
+              <TextInput
+                value={form.project}
+                onChangeText={(project) => setForm((f) => ({ ...f, project }))}
+                placeholder="Es. Il film"
+                placeholderTextColor={ui.placeholder}
+                style={styles.input}
+              />
+            </View>
+
+            <View style={styles.field}>
+              <Text style={styles.label}>Rullo</Text>
+              <TextInput
+                value={form.reel}
+                onChangeText={(reel) => setForm((f) => ({ ...f, reel }))}
+                placeholder="Es. R2"
+                placeholderTextColor={ui.placeholder}
+                style={styles.input}
+                returnKeyType="done"
+                onSubmitEditing={confirmForm}
+              />
+            </View>
+
+            {formTarget === "new" && (
+              <Text style={styles.help}>
+                FPS e start TC vengono copiati dalla sessione aperta; puoi cambiarli nelle Impostazioni.
+              </Text>
+            )}
+
+            <PillButton
+              styles={styles}
+              label={formTarget === "new" ? "Crea e apri" : "Salva"}
+              onPress={confirmForm}
+              variant="primary"
+              style={{ marginTop: 12 }}
+              haptic="light"
+            />
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
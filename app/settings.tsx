@@ -0,0 +1,968 @@
+import { router, useLocalSearchParams } from "expo-router";
+import { StatusBar } from "expo-status-bar";
+import { ArrowLeft, Trash } from "phosphor-react-native";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Platform,
+  Pressable,
+  ScrollView,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { SafeAreaView, useSafeAreaInsets } from "react-native-safe-area-context";
+
+import { Card, Divider, doHaptic, IconButton, PillButton, Wheel } from "@/components/controls";
+import { UndoToast } from "@/components/undo-toast";
+import { getUi, ThemeName } from "@/constants/palette";
+import { createStyles } from "@/constants/styles";
+import { useUndoHistory } from "@/hooks/use-undo-history";
+import {
+  MARKER_COLOR_IDS,
+  MARKER_COLORS,
+  MarkerCategory,
+  newCategoryId,
+} from "@/lib/categories";
+import { parseEdl } from "@/lib/edl";
+import { directoryLabel, pickExportDirectory, pickTextFile } from "@/lib/files";
+import { DEFAULT_FILENAME_TEMPLATE, FILENAME_TOKENS, renderFileName } from "@/lib/filenames";
+import { parseAudacityLabels } from "@/lib/formats/audacity";
+import { parseAvidMarkers } from "@/lib/formats/avid";
+import { categoriesForImport, ImportResult } from "@/lib/formats/common";
+import { importFramemarkSession } from "@/lib/formats/framemark";
+import { parseReaperCsv } from "@/lib/formats/reaper";
+import { DEFAULT_CUE_SECONDS } from "@/lib/formats/subtitles";
+import {
+  getAutoRename,
+  getCueSeconds,
+  getExportDirectory,
+  getFileNameTemplate,
+  getReviewer,
+  setAutoRename,
+  setCueSeconds,
+  setExportDirectory,
+  setFileNameTemplate,
+  setReviewer,
+  setTheme,
+  setTourDone,
+} from "@/lib/prefs";
+import {
+  convertSnapshotRate,
+  emptySnapshot,
+  getActiveSessionId,
+  getSessionMeta,
+  loadSession,
+  Marker,
+  saveSession,
+  SessionMeta,
+  SessionSnapshot,
+  setActiveSessionId,
+} from "@/lib/session";
+import {
+  formatTimecode,
+  FrameRate,
+  isValidTimecode,
+  parseRate,
+  parseTimecode,
+  RATE_PRESETS,
+  rateLabel,
+  sameRate,
+  secondsToFrames,
+  timebase,
+  timecodeToFrames,
+} from "@/lib/timecode";
+
+/* ---------- Impostazioni ---------- */
+
+// Modifica lo snapshot salvato della sessione attiva e le preferenze del
+// dispositivo; la home li rilegge quando torna in primo piano.
+export default function SettingsScreen() {
+  const params = useLocalSearchParams<{ theme?: ThemeName }>();
+  const insets = useSafeAreaInsets();
+  const [theme, setThemeValue] = useState<ThemeName>(params.theme === "light" ? "light" : "dark");
+  const ui = useMemo(() => getUi(theme), [theme]);
+  const styles = useMemo(() => createStyles(ui), [ui]);
+
+  /* ---------- Sessione attiva ---------- */
+
+  const [session, setSession] = useState<SessionMeta | null>(null);
+  const [snapshot, setSnapshot] = useState<SessionSnapshot | null>(null);
+  const snapshotRef = useRef<SessionSnapshot | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      const id = await getActiveSessionId();
+      const meta = id ? await getSessionMeta(id) : null;
+      if (!meta) return;
+      const saved = (await loadSession(meta.id)) ?? emptySnapshot(meta.rate, meta.startTC);
+      if (!mounted) return;
+      snapshotRef.current = saved;
+      setSession(meta);
+      setSnapshot(saved);
+      setPreRollDraft(String(saved.preRoll.value));
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  // Stato più recente anche tra due render (import dopo la scelta del file)
+  const current = () => snapshotRef.current ?? emptySnapshot();
+
+  // Ogni modifica si salva subito, così al ritorno la home trova lo stato aggiornato
+  const update = (fn: (s: SessionSnapshot) => SessionSnapshot) => {
+    const prev = snapshotRef.current;
+    if (!prev || !session) return;
+    const next = { ...fn(prev), savedAt: Date.now() };
+    snapshotRef.current = next;
+    setSnapshot(next);
+    saveSession(session.id, next);
+  };
+
+  const history = useUndoHistory<SessionSnapshot>(
+    () => current(),
+    (patch) => update((s) => ({ ...s, ...patch }))
+  );
+
+  const [toast, setToast] = useState<{ message: string; entry: number } | null>(null);
+  const hideToast = useCallback(() => setToast(null), []);
+  const toastMessage = toast && toast.entry === history.undoId ? toast.message : null;
+
+  const undoToast = () => {
+    if (!toast) return;
+    setToast(null);
+    if (history.undo(toast.entry)) doHaptic("light");
+  };
+
+  /* ---------- Preferenze del dispositivo ---------- */
+
+  const [reviewer, setReviewerName] = useState("");
+  const [fileNameTemplate, setFileNameTemplateValue] = useState(DEFAULT_FILENAME_TEMPLATE);
+  const [autoRename, setAutoRenameValue] = useState(false);
+  const [exportDirectory, setExportDirectoryValue] = useState<string | null>(null);
+  const [cueSecondsDraft, setCueSecondsDraft] = useState(String(DEFAULT_CUE_SECONDS));
+
+  useEffect(() => {
+    getReviewer().then(setReviewerName);
+    getFileNameTemplate().then(setFileNameTemplateValue);
+    getAutoRename().then(setAutoRenameValue);
+    getCueSeconds().then((v) => setCueSecondsDraft(String(v)));
+    if (Platform.OS === "android") getExportDirectory().then(setExportDirectoryValue);
+  }, []);
+
+  const commitFileNameTemplate = () => {
+    const t = fileNameTemplate.trim() || DEFAULT_FILENAME_TEMPLATE;
+    setFileNameTemplateValue(t);
+    setFileNameTemplate(t);
+  };
+
+  const commitCueSeconds = () => {
+    const v = Number(cueSecondsDraft.replace(",", "."));
+    const value = Number.isFinite(v) && v > 0 ? v : DEFAULT_CUE_SECONDS;
+    setCueSecondsDraft(String(value));
+    setCueSeconds(value);
+  };
+
+  const chooseExportDirectory = async () => {
+    const uri = await pickExportDirectory(exportDirectory);
+    if (!uri) return;
+    setExportDirectoryValue(uri);
+    setExportDirectory(uri);
+  };
+
+  const clearExportDirectory = () => {
+    setExportDirectoryValue(null);
+    setExportDirectory(null);
+  };
+
+  /* ---------- FPS e start TC ---------- */
+
+  const [customRateDraft, setCustomRateDraft] = useState("");
+
+  const changeFps = (newRate: FrameRate) => {
+    if (!snapshot || sameRate(newRate, snapshot.rate)) return;
+    update((s) => convertSnapshotRate(s, newRate));
+  };
+
+  const applyCustomRate = () => {
+    const parsed = parseRate(customRateDraft);
+    if (!parsed) {
+      Alert.alert(
+        "FPS non valido",
+        "Usa un valore tra 1 e 240 intero o NTSC, es. 25, 23.976 o 24000/1001. Aggiungi DF per il drop-frame (solo 29.97 e 59.94)."
+      );
+      return;
+    }
+    changeFps(parsed);
+    setCustomRateDraft("");
+  };
+
+  // Start Timecode picker modal (HH:MM:SS:FF) - evita tastiera
+  const [tcModalOpen, setTcModalOpen] = useState(false);
+  const [tcH, setTcH] = useState(1);
+  const [tcM, setTcM] = useState(0);
+  const [tcS, setTcS] = useState(0);
+  const [tcF, setTcF] = useState(0);
+
+  const openTcModal = () => {
+    const p = snapshot && parseTimecode(snapshot.startTC);
+    if (p) {
+      setTcH(p.hh);
+      setTcM(p.mm);
+      setTcS(p.ss);
+      setTcF(p.ff);
+    }
+    setTcModalOpen(true);
+  };
+
+  const confirmTcModal = () => {
+    if (!snapshot) return;
+    const { rate } = snapshot;
+    const tc = formatTimecode(tcH, tcM, tcS, tcF, rate.dropFrame);
+    if (!isValidTimecode(tc, rate)) {
+      Alert.alert(
+        "Start TC non valido",
+        `${tc} non esiste in drop-frame: i frame ${timebase(rate) === 60 ? "00-03" : "00-01"} vengono saltati all'inizio di ogni minuto, tranne i minuti multipli di 10.`
+      );
+      return;
+    }
+    // il clock riparte dal nuovo start TC, anche se sta girando
+    const frames = timecodeToFrames(tc, rate);
+    update((s) => ({
+      ...s,
+      startTC: tc,
+      frames,
+      clock: { ...s.clock, startedAt: Date.now(), baseFrames: frames },
+    }));
+    setTcModalOpen(false);
+  };
+
+  // Pre-roll: il tocco arriva dopo l'istante a cui si è reagito
+  const [preRollDraft, setPreRollDraft] = useState("0");
+
+  const commitPreRoll = () => {
+    const v = Number(preRollDraft.replace(",", "."));
+    const value = Number.isFinite(v) && v >= 0 ? v : 0;
+    update((s) => ({ ...s, preRoll: { ...s.preRoll, value } }));
+    setPreRollDraft(String(value));
+  };
+
+  /* ---------- Categorie ---------- */
+
+  const addCategory = () =>
+    update((s) => {
+      const used = new Set(s.categories.map((c) => c.color));
+      const color = MARKER_COLOR_IDS.find((id) => !used.has(id)) ?? "red";
+      return {
+        ...s,
+        categories: [
+          ...s.categories,
+          { id: newCategoryId(), label: `Categoria ${s.categories.length + 1}`, color },
+        ],
+      };
+    });
+
+  const renameCategory = (id: string, label: string) =>
+    update((s) => ({
+      ...s,
+      categories: s.categories.map((c) => (c.id === id ? { ...c, label } : c)),
+    }));
+
+  const cycleCategoryColor = (id: string) =>
+    update((s) => ({
+      ...s,
+      categories: s.categories.map((c) => {
+        if (c.id !== id) return c;
+        const i = MARKER_COLOR_IDS.indexOf(c.color);
+        return { ...c, color: MARKER_COLOR_IDS[(i + 1) % MARKER_COLOR_IDS.length] };
+      }),
+    }));
+
+  const removeCategory = (cat: MarkerCategory) => {
+    const used = snapshot?.markers.filter((m) => m.category === cat.id).length ?? 0;
+    const drop = () => {
+      const entry = history.record("Elimina categoria", ["categories", "markers"]);
+      update((s) => ({
+        ...s,
+        categories: s.categories.filter((c) => c.id !== cat.id),
+        markers: s.markers.map((m) => (m.category === cat.id ? { ...m, category: null } : m)),
+      }));
+      setToast({ message: `Categoria "${cat.label}" eliminata`, entry });
+    };
+    if (used === 0) return drop();
+    Alert.alert(
+      "Elimina categoria",
+      `${used} marker usano "${cat.label}" e resteranno senza categoria.`,
+      [
+        { text: "Annulla", style: "cancel" },
+        { text: "Elimina", style: "destructive", onPress: drop },
+      ]
+    );
+  };
+
+  /* ---------- EDL e import ---------- */
+
+  // EDL del montaggio: non importa marker, serve a collocarli nei clip
+  const loadEdl = async () => {
+    if (!snapshot) return;
+    try {
+      const file = await pickTextFile(["*/*"]);
+      if (!file) return;
+      const { edl: parsed, errors } = parseEdl(file.text, snapshot.rate, file.name);
+      if (parsed.events.length === 0) {
+        Alert.alert("EDL", `Nessun evento trovato in ${file.name}.`);
+        return;
+      }
+      update((s) => ({ ...s, edl: parsed }));
+      const skipped = errors.length ? `\n${errors.length} righe ignorate.` : "";
+      Alert.alert("EDL", `${parsed.events.length} eventi caricati da ${file.name}.${skipped}`);
+    } catch {
+      Alert.alert("EDL", "Impossibile leggere il file selezionato.");
+    }
+  };
+
+  const removeEdl = () => {
+    const edl = snapshot?.edl;
+    if (!edl) return;
+    Alert.alert("Rimuovi EDL", `Vuoi scollegare "${edl.fileName}" da questa sessione?`, [
+      { text: "Annulla", style: "cancel" },
+      { text: "Rimuovi", style: "destructive", onPress: () => update((s) => ({ ...s, edl: null })) },
+    ]);
+  };
+
+  // I marker letti dal file si aggiungono a quelli della sessione (annullabile)
+  const applyImport = (result: ImportResult, source: string) => {
+    const skipped = result.errors.slice(0, 5).join("\n");
+    const more = result.errors.length > 5 ? `\n… e altre ${result.errors.length - 5}` : "";
+    if (result.markers.length === 0) {
+      Alert.alert("Import", `Nessun marker trovato in ${source}.${skipped ? `\n\n${skipped}${more}` : ""}`);
+      return;
+    }
+
+    const entry = history.record("Importa marker", ["markers", "categories"]);
+    update((s) => {
+      const { categories, categoryFor } = categoriesForImport(result.markers, s.categories);
+      const firstId = s.markers.reduce((max, m) => Math.max(max, m.id), 0) + 1;
+      const added: Marker[] = result.markers.map((m, i) => ({
+        id: firstId + i,
+        frames: m.frames,
+        duration: m.duration,
+        comment: m.comment,
+        category: categoryFor(m.color),
+        status: null,
+        author: "",
+        capturedAt: null,
+      }));
+      return { ...s, categories, markers: [...s.markers, ...added] };
+    });
+    setToast({ message: `${result.markers.length} markers importati da ${source}`, entry });
+
+    if (skipped) {
+      Alert.alert("Import", `${result.errors.length} righe ignorate:\n\n${skipped}${more}`);
+    }
+  };
+
+  const importFromFile = async (types: string[], parse: (text: string) => ImportResult) => {
+    try {
+      const file = await pickTextFile(types);
+      if (!file) return;
+      applyImport(parse(file.text), file.name);
+    } catch {
+      Alert.alert("Import", "Impossibile leggere il file selezionato.");
+    }
+  };
+
+  const importAvid = () =>
+    importFromFile(["text/plain", "text/tab-separated-values", "*/*"], (text) =>
+      parseAvidMarkers(text, current().rate)
+    );
+
+  const importAudacity = () =>
+    importFromFile(["text/plain", "*/*"], (text) =>
+      parseAudacityLabels(text, current().rate, current().startTC)
+    );
+
+  const importReaper = () =>
+    importFromFile(["text/csv", "text/comma-separated-values", "*/*"], (text) =>
+      parseReaperCsv(text, current().rate, current().startTC)
+    );
+
+  // Un file FrameMark diventa una nuova sessione, che viene aperta subito
+  const importFramemark = async () => {
+    try {
+      const file = await pickTextFile(["application/json", "*/*"]);
+      if (!file) return;
+      const { meta, errors } = await importFramemarkSession(file.text);
+      if (!meta) {
+        Alert.alert("Import", errors.join("\n"));
+        return;
+      }
+      await setActiveSessionId(meta.id);
+      router.dismissTo({ pathname: "/", params: { session: meta.id } });
+      const notes = errors.length ? `\n\n${errors.join("\n")}` : "";
+      Alert.alert("Import", `Sessione "${meta.title}" importata con ${meta.markerCount} markers.${notes}`);
+    } catch {
+      Alert.alert("Import", "Impossibile leggere il file selezionato.");
+    }
+  };
+
+  const goBack = () => {
+    if (router.canGoBack()) router.back();
+    else router.replace("/");
+  };
+
+  // Il tutorial vive nella home: si azzera il flag e ci si torna
+  const replayTour = async () => {
+    await setTourDone(false);
+    goBack();
+  };
+
+  /* ---------- UI ---------- */
+
+  if (!snapshot) {
+    return (
+      <SafeAreaView style={styles.screen}>
+        <ActivityIndicator color={ui.primary} style={{ marginTop: 24 }} />
+      </SafeAreaView>
+    );
+  }
+
+  const { rate, startTC, categories, edl, captureMode, preRoll } = snapshot;
+  const playing = snapshot.clock.running;
+  const fps = timebase(rate);
+  const preRollFrames =
+    preRoll.unit === "seconds" ? secondsToFrames(preRoll.value, rate) : Math.round(preRoll.value);
+
+  // Anteprima del nome degli export con i dati della sessione aperta
+  const fileNamePreview = renderFileName(fileNameTemplate, {
+    project: session?.project ?? "",
+    reel: session?.reel ?? "",
+    title: session?.title ?? "",
+    date: new Date(),
+    rate,
+    count: snapshot.markers.length,
+    reviewer,
+  });
+
+  return (
+    <SafeAreaView style={styles.screen}>
+      <StatusBar style={theme === "dark" ? "light" : "dark"} />
+
+      <View style={styles.topBar}>
+        <View style={{ flexDirection: "row", alignItems: "center", gap: 10 }}>
+          <Pressable onPress={goBack} hitSlop={10} style={{ paddingVertical: 4, paddingRight: 6 }}>
+            <ArrowLeft size={22} color={ui.text} weight="bold" />
+          </Pressable>
+          <Text style={{ color: ui.text, fontWeight: "900", fontSize: 16 }}>Impostazioni</Text>
+        </View>
+        <View style={styles.topBarRight}>
+          <Text style={styles.fpsBadgeText}>{rateLabel(rate)} fps</Text>
+        </View>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <Card styles={styles}>
+          <Text style={styles.sectionTitle}>Impostazioni</Text>
+
+          <View style={styles.toggleRow}>
+            <Text style={styles.toggleText}>Tema scuro</Text>
+            <Switch
+              value={theme === "dark"}
+              onValueChange={(v) => {
+                const next = v ? "dark" : "light";
+                setThemeValue(next);
+                setTheme(next);
+              }}
+              trackColor={{
+                false: ui.border,
+                true: ui.primary,
+              }}
+              thumbColor={
+                Platform.OS === "android"
+                  ? theme === "dark"
+                    ? "#FFFFFF"
+                    : "#E5E7EB"
+                  : undefined
+              }
+            />
+          </View>
+          <Divider styles={styles} />
+
+          <View style={styles.field}>
+            <Text style={styles.label}>FPS</Text>
+
+            <View
+              style={{ flexDirection: "row", flexWrap: "wrap", gap: 8, marginTop: 4 }}
+              pointerEvents={playing ? "none" : "auto"}
+            >
+              {RATE_PRESETS.map((v) => {
+                const active = sameRate(rate, v);
+
+                return (
+                  <Pressable
+                    key={rateLabel(v)}
+                    onPress={() => changeFps(v)}
+                    disabled={playing}
+                    style={[
+                      styles.fpsRadio,
+                      active && styles.fpsRadioActive,
+                      playing && { opacity: 0.55 },
+                    ]}
+                  >
+                    <Text
+                      style={[
+                        styles.fpsRadioText,
+                        active && styles.fpsRadioTextActive,
+                      ]}
+                    >
+                      {rateLabel(v)}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            <TextInput
+              value={customRateDraft}
+              onChangeText={setCustomRateDraft}
+              editable={!playing}
+              placeholder={`Personalizzato (es. 23.976 o 24000/1001) • attuale ${rate.num}/${rate.den}`}
+              placeholderTextColor={ui.placeholder}
+              autoCapitalize="characters"
+              autoCorrect={false}
+              returnKeyType="done"
+              onSubmitEditing={applyCustomRate}
+              style={[styles.input, { marginTop: 8 }, playing && { opacity: 0.55 }]}
+            />
+          </View>
+
+
+          <View style={styles.field}>
+            <Text style={styles.label}>Il tuo nome (reviewer)</Text>
+            <TextInput
+              value={reviewer}
+              onChangeText={setReviewerName}
+              onEndEditing={() => setReviewer(reviewer.trim())}
+              placeholder="Es. Giulia"
+              placeholderTextColor={ui.placeholder}
+              style={styles.input}
+            />
+            <Text style={styles.help}>Firma i nuovi markers e compare negli export.</Text>
+          </View>
+
+          <View style={styles.field}>
+            <Text style={styles.label}>Nome file degli export</Text>
+            <TextInput
+              value={fileNameTemplate}
+              onChangeText={setFileNameTemplateValue}
+              onEndEditing={commitFileNameTemplate}
+              placeholder={DEFAULT_FILENAME_TEMPLATE}
+              placeholderTextColor={ui.placeholder}
+              autoCapitalize="none"
+              autoCorrect={false}
+              style={styles.input}
+            />
+            <View style={styles.categoryChips}>
+              {FILENAME_TOKENS.map((t) => (
+                <Pressable
+                  key={t.token}
+                  onPress={() => {
+                    const next = `${fileNameTemplate}${t.token}`;
+                    setFileNameTemplateValue(next);
+                    setFileNameTemplate(next);
+                  }}
+                  style={[styles.sortPill, styles.categoryChip]}
+                >
+                  <Text style={styles.sortPillText}>{t.label}</Text>
+                </Pressable>
+              ))}
+            </View>
+            <Text style={styles.help}>Anteprima: {fileNamePreview}</Text>
+          </View>
+
+          <View style={styles.toggleRow}>
+            <View style={{ flex: 1, paddingRight: 12 }}>
+              <Text style={styles.toggleText}>Rinomina se il file esiste</Text>
+              <Text style={styles.help}>
+                Aggiunge &quot;-2&quot; al nome invece di chiedere se sovrascrivere.
+              </Text>
+            </View>
+            <Switch
+              value={autoRename}
+              onValueChange={(v) => {
+                setAutoRenameValue(v);
+                setAutoRename(v);
+              }}
+              trackColor={{
+                false: ui.border,
+                true: ui.primary,
+              }}
+            />
+          </View>
+
+          {Platform.OS === "android" && (
+            <View style={styles.field}>
+              <Text style={styles.label}>Cartella degli export</Text>
+              <Text style={styles.help}>
+                {exportDirectory
+                  ? `Gli export vengono salvati in ${directoryLabel(exportDirectory)}.`
+                  : "Nessuna cartella: gli export si aprono nel menu di condivisione."}
+              </Text>
+              <View style={{ flexDirection: "row", gap: 8, marginTop: 8 }}>
+                <PillButton
+                  styles={styles}
+                  label={exportDirectory ? "Cambia cartella" : "Scegli cartella"}
+                  onPress={chooseExportDirectory}
+                  variant="secondary"
+                  style={{ flex: 1 }}
+                  haptic="light"
+                />
+                {exportDirectory && (
+                  <PillButton
+                    styles={styles}
+                    label="Usa condivisione"
+                    onPress={clearExportDirectory}
+                    variant="secondary"
+                    style={{ flex: 1 }}
+                    haptic="light"
+                  />
+                )}
+              </View>
+            </View>
+          )}
+
+          <View style={styles.toggleRow}>
+            <View style={{ flex: 1, paddingRight: 12 }}>
+              <Text style={styles.toggleText}>Marker a intervallo</Text>
+              <Text style={styles.help}>
+                Primo tocco IN, secondo tocco OUT. Tenendo premuto si crea sempre un intervallo.
+              </Text>
+            </View>
+            <Switch
+              value={captureMode === "range"}
+              onValueChange={(v) => {
+                update((s) => ({ ...s, captureMode: v ? "range" : "point", pendingIn: null }));
+              }}
+              trackColor={{
+                false: ui.border,
+                true: ui.primary,
+              }}
+            />
+          </View>
+
+          <View style={styles.field}>
+            <Text style={styles.label}>Compensazione reazione (pre-roll)</Text>
+            <View style={{ flexDirection: "row", alignItems: "center", gap: 8 }}>
+              <TextInput
+                value={preRollDraft}
+                onChangeText={setPreRollDraft}
+                onEndEditing={commitPreRoll}
+                onSubmitEditing={commitPreRoll}
+                keyboardType="decimal-pad"
+                returnKeyType="done"
+                style={[styles.input, { flex: 1, paddingVertical: 8 }]}
+              />
+              {(["seconds", "frames"] as const).map((unit) => {
+                const active = preRoll.unit === unit;
+                return (
+                  <Pressable
+                    key={unit}
+                    onPress={() => update((s) => ({ ...s, preRoll: { ...s.preRoll, unit } }))}
+                    style={[styles.fpsRadio, { flex: 0, minWidth: 64 }, active && styles.fpsRadioActive]}
+                  >
+                    <Text style={[styles.fpsRadioText, active && styles.fpsRadioTextActive]}>
+                      {unit === "seconds" ? "sec" : "frame"}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+            <Text style={styles.help}>
+              Sottratta a ogni marker catturato ({preRollFrames} frame a {rateLabel(rate)} fps).
+            </Text>
+          </View>
+
+          <View style={styles.field}>
+            <Text style={styles.label}>Durata sottotitoli (secondi)</Text>
+            <TextInput
+              value={cueSecondsDraft}
+              onChangeText={setCueSecondsDraft}
+              onEndEditing={commitCueSeconds}
+              onSubmitEditing={commitCueSeconds}
+              keyboardType="decimal-pad"
+              placeholderTextColor={ui.placeholder}
+              style={styles.input}
+            />
+            <Text style={styles.help}>
+              Usata negli export SRT / WebVTT per i marker puntuali; gli intervalli finiscono al loro OUT.
+            </Text>
+          </View>
+
+          <View style={styles.field}>
+            <Text style={styles.label}>Start Timecode</Text>
+            <Pressable onPress={openTcModal} style={styles.input}>
+              <Text style={{ color: ui.text, fontWeight: "900" }}>{startTC}</Text>
+              <Text style={{ color: ui.subtext, marginTop: 4, fontSize: 12 }}>
+                Tocca per impostare ({rate.dropFrame ? "HH:MM:SS;FF" : "HH:MM:SS:FF"})
+              </Text>
+            </Pressable>
+          </View>
+
+          <Divider styles={styles} />
+
+          <View style={styles.field}>
+            <Text style={styles.label}>Categorie marker (questa sessione)</Text>
+            {categories.map((c) => (
+              <View key={c.id} style={styles.categoryRow}>
+                <Pressable
+                  onPress={() => cycleCategoryColor(c.id)}
+                  hitSlop={8}
+                  style={[styles.categorySwatch, { backgroundColor: MARKER_COLORS[c.color].hex }]}
+                />
+                <TextInput
+                  value={c.label}
+                  onChangeText={(label) => renameCategory(c.id, label)}
+                  placeholder="Nome categoria"
+                  placeholderTextColor={ui.placeholder}
+                  style={[styles.input, { flex: 1, paddingVertical: 8 }]}
+                />
+                <IconButton
+                  styles={styles}
+                  flat
+                  size={34}
+                  icon={<Trash size={18} color={ui.primary} weight="bold" />}
+                  onPress={() => removeCategory(c)}
+                  haptic="light"
+                />
+              </View>
+            ))}
+            <Text style={styles.help}>
+              Tocca il colore per cambiarlo. I colori corrispondono a quelli dei marker di Avid, Resolve e Premiere.
+            </Text>
+            <PillButton
+              styles={styles}
+              label="Aggiungi categoria"
+              onPress={addCategory}
+              variant="secondary"
+              style={{ marginTop: 10 }}
+              haptic="light"
+            />
+          </View>
+
+          <Divider styles={styles} />
+
+          <View style={styles.field}>
+            <Text style={styles.label}>EDL del montaggio (CMX3600)</Text>
+            {edl ? (
+              <>
+                <Text style={{ color: ui.text, fontWeight: "800" }}>{edl.fileName}</Text>
+                <Text style={styles.help}>
+                  {edl.title ? `${edl.title} • ` : ""}
+                  {edl.events.length} eventi • {edl.dropFrame ? "Drop frame" : "Non-drop"}
+                </Text>
+                <View style={{ flexDirection: "row", gap: 8, marginTop: 10 }}>
+                  <PillButton
+                    styles={styles}
+                    label="Sostituisci"
+                    onPress={loadEdl}
+                    variant="secondary"
+                    style={{ flex: 1 }}
+                    haptic="light"
+                  />
+                  <PillButton
+                    styles={styles}
+                    label="Rimuovi"
+                    onPress={removeEdl}
+                    variant="secondary"
+                    style={{ flex: 1 }}
+                    haptic="light"
+                  />
+                </View>
+              </>
+            ) : (
+              <PillButton
+                styles={styles}
+                label="Carica EDL"
+                onPress={loadEdl}
+                variant="secondary"
+                haptic="light"
+              />
+            )}
+            <Text style={styles.help}>
+              Ogni marker mostra evento, rullo e clip in cui cade, con il TC sorgente.
+            </Text>
+          </View>
+
+          <View style={styles.field}>
+            <Text style={styles.label}>Importa markers</Text>
+            <PillButton
+              styles={styles}
+              label="Avid (marker list)"
+              onPress={importAvid}
+              variant="secondary"
+              haptic="light"
+            />
+            <PillButton
+              styles={styles}
+              label="Audacity (label track)"
+              onPress={importAudacity}
+              variant="secondary"
+              style={{ marginTop: 10 }}
+              haptic="light"
+            />
+            <PillButton
+              styles={styles}
+              label="Reaper (marker / regioni CSV)"
+              onPress={importReaper}
+              variant="secondary"
+              style={{ marginTop: 10 }}
+              haptic="light"
+            />
+            <Text style={styles.help}>
+              I markers vengono aggiunti a quelli della sessione, letti a {rateLabel(rate)} fps;
+              i tempi in secondi partono dallo start TC.
+            </Text>
+            <PillButton
+              styles={styles}
+              label="Sessione FrameMark (JSON)"
+              onPress={importFramemark}
+              variant="secondary"
+              style={{ marginTop: 10 }}
+              haptic="light"
+            />
+            <Text style={styles.help}>
+              Crea una nuova sessione con fps, start TC, markers e riepilogo del file.
+            </Text>
+          </View>
+
+          <PillButton
+            styles={styles}
+            label="Rivedi tutorial"
+            onPress={replayTour}
+            variant="secondary"
+            style={{ marginTop: 12 }}
+            haptic="light"
+          />
+        </Card>
+
+      </ScrollView>
+
+      {/* MODAL START TIMECODE */}
+      <Modal
+        visible={tcModalOpen}
+        transparent
+        animationType="fade"
+        presentationStyle="overFullScreen"
+        statusBarTranslucent
+      >
+        <View style={styles.modalBg}>
+          <View style={styles.modal}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Imposta Start TC</Text>
+              <TouchableOpacity onPress={() => setTcModalOpen(false)} hitSlop={10}>
+                <Text style={styles.close}>Annulla</Text>
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.modalSubtitle}>
+              {rate.dropFrame ? "HH : MM : SS ; FF (drop-frame)" : "HH : MM : SS : FF"}
+            </Text>
+
+            <Text style={styles.tcPreview}>
+              {formatTimecode(tcH, tcM, tcS, tcF, rate.dropFrame)}
+            </Text>
+
+            <View style={styles.tcRow}>
+              <View style={styles.tcCol}>
+                <Text style={styles.wheelLabel}>HH</Text>
+                <View style={[styles.wheelBox, styles.wheelBoxTight]}>
+                  <Wheel
+                    value={tcH}
+                    onChange={setTcH}
+                    count={24}
+                    textStyle={{ fontWeight: "900", color: ui.text }}
+                    highlightBg={ui.summaryBg}
+                    highlightBorder={ui.summaryBorder}
+                  />
+                </View>
+              </View>
+
+              <View style={styles.tcCol}>
+                <Text style={styles.wheelLabel}>MM</Text>
+                <View style={[styles.wheelBox, styles.wheelBoxTight]}>
+                  <Wheel
+                    value={tcM}
+                    onChange={setTcM}
+                    count={60}
+                    textStyle={{ fontWeight: "900", color: ui.text }}
+                    highlightBg={ui.summaryBg}
+                    highlightBorder={ui.summaryBorder}
+                  />
+                </View>
+              </View>
+
+              <View style={styles.tcCol}>
+                <Text style={styles.wheelLabel}>SS</Text>
+                <View style={[styles.wheelBox, styles.wheelBoxTight]}>
+                  <Wheel
+                    value={tcS}
+                    onChange={setTcS}
+                    count={60}
+                    textStyle={{ fontWeight: "900", color: ui.text }}
+                    highlightBg={ui.summaryBg}
+                    highlightBorder={ui.summaryBorder}
+                  />
+                </View>
+              </View>
+
+              <View style={styles.tcCol}>
+                <Text style={styles.wheelLabel}>FF</Text>
+                <View style={[styles.wheelBox, styles.wheelBoxTight]}>
+                  <Wheel
+                    key={`ff-${fps}`}
+                    value={Math.min(tcF, Math.max(0, fps - 1))}
+                    onChange={setTcF}
+                    count={Math.max(1, fps)}
+                    textStyle={{ fontWeight: "900", color: ui.text }}
+                    highlightBg={ui.summaryBg}
+                    highlightBorder={ui.summaryBorder}
+                  />
+                </View>
+              </View>
+
+              {/* Separators as overlay so they don't take layout space */}
+              <Text style={[styles.tcSep, { left: "25%" }]}>:</Text>
+              <Text style={[styles.tcSep, { left: "50%" }]}>:</Text>
+              <Text style={[styles.tcSep, { left: "75%" }]}>{rate.dropFrame ? ";" : ":"}</Text>
+            </View>
+
+            <PillButton
+              styles={styles}
+              label="Conferma"
+              onPress={confirmTcModal}
+              variant="primary"
+              style={{ marginTop: 12 }}
+            
+              haptic="light"
+            />
+          </View>
+        </View>
+      </Modal>
+
+
+      <UndoToast
+        message={toastMessage}
+        onUndo={undoToast}
+        onHide={hideToast}
+        bottom={insets.bottom + 16}
+        ui={ui}
+      />
+    </SafeAreaView>
+  );
+}
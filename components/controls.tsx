@@ -0,0 +1,372 @@
+import * as Haptics from "expo-haptics";
+import React, { useEffect, useMemo, useRef } from "react";
+import { Animated, FlatList, Pressable, Text, Vibration, View } from "react-native";
+
+/* ---------- Light UI helpers ---------- */
+
+export function Card({
+  children,
+  style,
+  styles,
+}: {
+  children: React.ReactNode;
+  style?: any;
+  styles: any;
+}) {
+  return <View style={[styles.card, style]}>{children}</View>;
+}
+
+export function PillButton({
+  label,
+  leftIcon,
+  onPress,
+  variant = "secondary",
+  disabled,
+  style,
+  styles,
+  haptic = "none",
+}: {
+  label: string;
+  leftIcon?: React.ReactNode;
+  onPress: () => void;
+  variant?: "primary" | "secondary" | "danger";
+  disabled?: boolean;
+  style?: any;
+  styles: any;
+  haptic?: HapticLevel;
+}) {
+  const scale = useRef(new Animated.Value(1)).current;
+
+  const pressIn = () => {
+    Animated.spring(scale, {
+      toValue: 0.97,
+      useNativeDriver: true,
+      speed: 28,
+      bounciness: 0,
+    }).start();
+  };
+
+  const pressOut = () => {
+    Animated.spring(scale, {
+      toValue: 1,
+      useNativeDriver: true,
+      speed: 28,
+      bounciness: 0,
+    }).start();
+  };
+
+  const handlePress = async () => {
+    if (disabled) return;
+    await doHaptic(haptic);
+    onPress();
+  };
+
+  // Mantiene compatibilità con l'uso attuale: molti bottoni passano style={{flex:1}}
+  const { flex, ...restStyle } = style || {};
+
+  return (
+    <Pressable
+      onPressIn={pressIn}
+      onPressOut={pressOut}
+      onPress={handlePress}
+      disabled={disabled}
+      style={flex !== undefined ? { flex } : undefined}
+    >
+      <Animated.View
+        style={[
+          styles.pillBtn,
+          variant === "primary" && styles.pillPrimary,
+          variant === "danger" && styles.pillDanger,
+          disabled && { opacity: 0.55 },
+          restStyle,
+          { transform: [{ scale }] },
+        ]}
+      >
+        <View style={{ flexDirection: "row", alignItems: "center", gap: 8 }}>
+          {leftIcon ? <View style={{ marginTop: 1 }}>{leftIcon}</View> : null}
+          <Text
+            style={[
+              styles.pillText,
+              variant === "primary" && styles.pillTextOnPrimary,
+              variant === "danger" && styles.pillTextDanger,
+            ]}
+          >
+            {label}
+          </Text>
+        </View>
+      </Animated.View>
+    </Pressable>
+  );
+}
+
+export function IconButton({
+  icon,
+  onPress,
+  variant = "secondary",
+  disabled,
+  size = 56,
+  styles,
+  haptic = "light",
+  flat = false,
+  onPressIn,
+  onPressOut,
+  onLongPress,
+}: {
+  icon: React.ReactNode;
+  onPress: () => void;
+  variant?: "primary" | "secondary" | "danger";
+  disabled?: boolean;
+  size?: number;
+  styles: any;
+  haptic?: HapticLevel;
+  flat?: boolean;
+  // Hold: se onLongPress scatta, onPress non viene chiamato
+  onPressIn?: () => void;
+  onPressOut?: () => void;
+  onLongPress?: () => void;
+}) {
+  const scale = useRef(new Animated.Value(1)).current;
+
+  const pressIn = () => {
+    onPressIn?.();
+    Animated.spring(scale, {
+      toValue: 0.95,
+      useNativeDriver: true,
+      speed: 28,
+      bounciness: 0,
+    }).start();
+  };
+
+  const pressOut = () => {
+    onPressOut?.();
+    Animated.spring(scale, {
+      toValue: 1,
+      useNativeDriver: true,
+      speed: 28,
+      bounciness: 0,
+    }).start();
+  };
+
+  const handlePress = async () => {
+    if (disabled) return;
+    await doHaptic(haptic);
+    onPress();
+  };
+
+  // Niente await prima di onLongPress: se il dito si alza durante l'haptic,
+  // il rilascio arriverebbe prima dell'inizio della pressione lunga
+  const handleLongPress = () => {
+    if (disabled || !onLongPress) return;
+    onLongPress();
+    doHaptic("medium");
+  };
+
+  return (
+    <Pressable
+      onPressIn={pressIn}
+      onPressOut={pressOut}
+      onPress={handlePress}
+      onLongPress={onLongPress ? handleLongPress : undefined}
+      disabled={disabled}
+    >
+      <Animated.View
+        style={[
+          styles.iconBtn,
+          flat && styles.bottomIconBtn,
+          variant === "primary" && styles.iconBtnPrimary,
+          variant === "danger" && styles.iconBtnDanger,
+          disabled && { opacity: 0.55 },
+          { width: size, height: size, transform: [{ scale }] },
+        ]}
+      >
+        {icon}
+      </Animated.View>
+    </Pressable>
+  );
+}
+
+export function IconNudge({
+  icon,
+  label,
+  onPress,
+  styles,
+  haptic = "light",
+}: {
+  icon: React.ReactNode;
+  label: string;
+  onPress: () => void;
+  styles: any;
+  haptic?: HapticLevel;
+}) {
+  return (
+    <View style={styles.nudgeWrap}>
+      <IconButton
+        styles={styles}
+        size={44}
+        icon={icon}
+        onPress={onPress}
+        haptic={haptic}
+      />
+      <Text style={styles.nudgeLabel}>{label}</Text>
+    </View>
+  );
+}
+
+
+export function Divider({ style, styles }: { style?: any; styles: any }) {
+  return <View style={[styles.divider, style]} />;
+}
+
+
+
+/* ---------- Motion & Haptics helpers ---------- */
+
+export type HapticLevel = "none" | "light" | "medium";
+
+export const doHaptic = async (level: HapticLevel) => {
+  if (level === "none") return;
+  try {
+    if (level === "light") {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    } else {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    }
+  } catch {
+    // Fallback (device senza supporto / permessi): vibrazione breve
+    Vibration.vibrate(level === "medium" ? 18 : 10);
+  }
+};
+
+/* ---------- Wheel (custom, no native popups) ---------- */
+
+export function Wheel({
+  value,
+  onChange,
+  count,
+  itemHeight = 46,
+  visibleItems = 5,
+  textStyle,
+  containerStyle,
+  inactiveOpacity = 0.35,
+  highlightBg = "rgba(59, 130, 246, 0.12)",
+  highlightBorder = "rgba(59, 130, 246, 0.22)",
+}: {
+  value: number;
+  onChange: (v: number) => void;
+  count: number;
+  itemHeight?: number;
+  visibleItems?: number;
+  textStyle?: any;
+  containerStyle?: any;
+  inactiveOpacity?: number;
+  highlightBg?: string;
+  highlightBorder?: string;
+}) {
+  const data = useMemo(
+    () => Array.from({ length: count }, (_, i) => i),
+    [count]
+  );
+
+  const pad = Math.floor(visibleItems / 2);
+  const height = itemHeight * visibleItems;
+  const listRef = useRef<FlatList<number>>(null);
+
+  // Keep list aligned when value changes programmatically (e.g., open modal)
+  useEffect(() => {
+    try {
+      listRef.current?.scrollToOffset({
+        offset: Math.max(0, Math.min(count - 1, value)) * itemHeight,
+        animated: false,
+      });
+    } catch {
+      // ignore
+    }
+  }, [value, count, itemHeight]);
+
+  return (
+    <View
+      style={[
+        {
+          height,
+          width: "100%",
+          borderRadius: 14,
+          overflow: "hidden",
+        },
+        containerStyle,
+      ]}
+    >
+      <FlatList
+        ref={listRef}
+        data={data}
+        keyExtractor={(x) => String(x)}
+        showsVerticalScrollIndicator={false}
+        snapToInterval={itemHeight}
+        decelerationRate="fast"
+        bounces={false}
+        getItemLayout={(_, index) => ({
+          length: itemHeight,
+          offset: itemHeight * index,
+          index,
+        })}
+        initialScrollIndex={Math.max(0, Math.min(count - 1, value))}
+        contentContainerStyle={{
+          paddingVertical: pad * itemHeight,
+        }}
+        onMomentumScrollEnd={(e) => {
+          const raw = e.nativeEvent.contentOffset.y;
+          const idx = Math.round(raw / itemHeight);
+          const v = Math.max(0, Math.min(count - 1, idx));
+          onChange(v);
+        }}
+        onScrollEndDrag={(e) => {
+          const raw = e.nativeEvent.contentOffset.y;
+          const idx = Math.round(raw / itemHeight);
+          const v = Math.max(0, Math.min(count - 1, idx));
+          onChange(v);
+        }}
+        renderItem={({ item }) => {
+          const isSelected = item === value;
+          return (
+            <View
+              style={{
+                height: itemHeight,
+                alignItems: "center",
+                justifyContent: "center",
+              }}
+            >
+              <View
+                style={[
+                  {
+                    width: "88%",
+                    height: itemHeight - 10,
+                    borderRadius: 12,
+                    alignItems: "center",
+                    justifyContent: "center",
+                  },
+                  isSelected && {
+                    backgroundColor: highlightBg,
+                    borderWidth: 1,
+                    borderColor: highlightBorder,
+                  },
+                ]}
+              >
+                <Text
+                  style={[
+                    textStyle,
+                    {
+                      opacity: isSelected ? 1 : inactiveOpacity,
+                      fontWeight: isSelected ? "900" : "800",
+                      fontSize: isSelected ? 22 : 18,
+                    },
+                  ]}
+                >
+                  {String(item).padStart(2, "0")}
+                </Text>
+              </View>
+            </View>
+          );
+        }}
+      />
+    </View>
+  );
+}
@@ -0,0 +1,77 @@
+import React, { useEffect, useRef } from "react";
+import { Animated, Pressable, Text, View } from "react-native";
+
+import { Ui } from "@/constants/palette";
+
+const TOAST_MS = 5000;
+
+/* ---------- Toast con azione "Annulla" ---------- */
+
+export function UndoToast({
+  message,
+  onUndo,
+  onHide,
+  bottom,
+  ui,
+}: {
+  message: string | null;
+  onUndo: () => void;
+  onHide: () => void;
+  bottom: number;
+  ui: Ui;
+}) {
+  const opacity = useRef(new Animated.Value(0)).current;
+
+  useEffect(() => {
+    if (!message) return;
+    opacity.setValue(0);
+    Animated.timing(opacity, { toValue: 1, duration: 160, useNativeDriver: true }).start();
+    const t = setTimeout(() => {
+      Animated.timing(opacity, { toValue: 0, duration: 200, useNativeDriver: true }).start(() =>
+        onHide()
+      );
+    }, TOAST_MS);
+    return () => clearTimeout(t);
+  }, [message, opacity, onHide]);
+
+  if (!message) return null;
+
+  return (
+    <Animated.View
+      style={{
+        position: "absolute",
+        left: 16,
+        right: 16,
+        bottom,
+        opacity,
+      }}
+    >
+      <View
+        style={{
+          flexDirection: "row",
+          alignItems: "center",
+          justifyContent: "space-between",
+          gap: 12,
+          paddingVertical: 12,
+          paddingHorizontal: 16,
+          borderRadius: 14,
+          backgroundColor: ui.modal,
+          borderWidth: 1,
+          borderColor: ui.border,
+          shadowColor: "#000",
+          shadowOpacity: 0.2,
+          shadowRadius: 16,
+          shadowOffset: { width: 0, height: 8 },
+          elevation: 6,
+        }}
+      >
+        <Text style={{ flex: 1, color: ui.text, fontWeight: "800", fontSize: 13 }} numberOfLines={2}>
+          {message}
+        </Text>
+        <Pressable onPress={onUndo} hitSlop={10}>
+          <Text style={{ color: ui.primary, fontWeight: "900", fontSize: 13 }}>Annulla</Text>
+        </Pressable>
+      </View>
+    </Animated.View>
+  );
+}
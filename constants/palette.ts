@@ -0,0 +1,42 @@
+export type ThemeName = "light" | "dark";
+
+export const PALETTE = {
+  light: {
+    bg: "#FFFFFF",
+    card: "#FFFFFF",
+    text: "#0B1220",
+    subtext: "#667085",
+    border: "rgba(15, 23, 42, 0.10)",
+    divider: "rgba(15, 23, 42, 0.08)",
+    surface: "#F6F7FB",
+    primary: "#E6B94A",
+    danger: "#EF4444",
+    modal: "#FFFFFF",
+    inputBg: "#FFFFFF",
+    summaryBg: "rgba(230, 185, 74, 0.10)",
+    summaryBorder: "rgba(230, 185, 74, 0.20)",
+    overlay: "rgba(0,0,0,0.28)",
+    placeholder: "rgba(15, 23, 42, 0.35)",
+  },
+  dark: {
+    bg: "#000000",
+    card: "#0A0A0A",
+    text: "#FFFFFF",
+    subtext: "#B3B3B3",
+    border: "rgba(255,255,255,0.12)",
+    divider: "rgba(255,255,255,0.08)",
+    surface: "#121212",
+    primary: "#E3B74A", // golden amber
+    summaryBg: "rgba(245, 200, 76, 0.18)",
+    summaryBorder: "rgba(227, 183, 74, 0.35)",
+    danger: "#EF4444",
+    modal: "#0A0A0A",
+    inputBg: "#0E0E0E",
+    overlay: "rgba(0,0,0,0.7)",
+    placeholder: "rgba(255,255,255,0.35)",
+  },
+} as const;
+
+export const getUi = (theme: ThemeName) => PALETTE[theme];
+
+export type Ui = ReturnType<typeof getUi>;
@@ -0,0 +1,465 @@
+import { Platform, StyleSheet } from "react-native";
+
+import { Ui } from "@/constants/palette";
+
+export const createStyles = (UI: Ui) =>
+  StyleSheet.create({
+    screen: { flex: 1, backgroundColor: UI.bg },
+    content: { padding: 16, paddingTop: 12, paddingBottom: 100 },
+
+    header: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 12,
+      marginBottom: 14,
+    },
+    title: { fontSize: 28, fontWeight: "900", color: UI.text, letterSpacing: 0.2 },
+    subtitle: { marginTop: 2, color: UI.subtext, fontSize: 13 },
+
+    badge: {
+      paddingHorizontal: 10,
+      paddingVertical: 6,
+      borderRadius: 999,
+      backgroundColor: UI.surface,
+      borderWidth: 1,
+      borderColor: UI.border,
+    },
+    badgeText: { color: UI.text, fontWeight: "800", fontSize: 12 },
+
+    card: {
+      backgroundColor: UI.card,
+      borderRadius: 18,
+      padding: 14,
+      marginBottom: 14,
+      borderWidth: 1,
+      borderColor: UI.border,
+      shadowColor: "#000",
+      shadowOpacity: 0.06,
+      shadowRadius: 18,
+      shadowOffset: { width: 0, height: 10 },
+      elevation: 2,
+    },
+
+    tc: {
+      fontSize: 46,
+      fontWeight: "900",
+      textAlign: "center",
+      color: UI.text,
+      letterSpacing: 1.6,
+    },
+    sessionTitle: {
+      textAlign: "center",
+      marginBottom: 4,
+      color: UI.subtext,
+      fontSize: 13,
+      fontWeight: "800",
+    },
+    tcHint: { textAlign: "center", marginTop: 6, color: UI.subtext, fontSize: 13 },
+
+    row: { flexDirection: "row", gap: 10, marginTop: 12 },
+
+    nudgeRow: {
+      flexDirection: "row",
+      justifyContent: "center",
+      gap: 20,          // ← regola qui quanto li vuoi compatti
+      marginTop: 14,
+    },
+
+    nudgeWrap: { alignItems: "center" },
+    nudgeLabel: {
+      marginTop: 6,
+      fontSize: 11,
+      fontWeight: "900",
+      color: UI.subtext,
+      letterSpacing: 0.2,
+      alignItems: "center",
+      gap : 2
+    },
+
+
+    pillBtn: {
+      paddingVertical: 12,
+      paddingHorizontal: 12,
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: UI.border,
+      backgroundColor: UI.surface,
+      alignItems: "center",
+      justifyContent: "center",
+    },
+    pillPrimary: {
+      backgroundColor: UI.primary,
+      shadowColor: "#000",
+      shadowOffset: { width: 0, height: 8 },
+      borderColor: "rgba(227, 183, 74, 0.35)", // oppure lascia il tuo blu se non hai cambiato palette
+      shadowOpacity: 0.12,
+      shadowRadius: 12
+    },
+    pillDanger: {
+      backgroundColor: "transparent",
+      borderColor: "rgba(239, 68, 68, 0.6)",
+    },
+    pillText: { color: UI.text, fontWeight: "800", fontSize: 13 },
+    pillTextOnPrimary: {
+      color: "#FFFFFF",
+      fontWeight: "800",
+    },
+    pillTextDanger: {
+      color: UI.danger,
+      fontWeight: "800",
+    },
+
+    iconBtn: {
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: UI.border,
+      backgroundColor: UI.surface,
+      alignItems: "center",
+      justifyContent: "center",
+    },
+    iconBtnPrimary: {
+      backgroundColor: UI.primary,
+      borderColor: "rgba(227, 183, 74, 0.35)",
+      shadowColor: "#000",
+      shadowOffset: { width: 0, height: 8 },
+      shadowOpacity: 0.12,
+      shadowRadius: 12,
+      elevation: 2,
+    },
+    iconBtnDanger: {
+      backgroundColor: "transparent",
+      borderColor: "rgba(239, 68, 68, 0.6)",
+    },
+
+    // Flat style for bottom navigation icons (no round border/background)
+    bottomIconBtn: {
+      borderRadius: 0,
+      borderWidth: 0,
+      backgroundColor: "transparent",
+    },
+
+    sectionTitle: { fontWeight: "900", color: UI.text, fontSize: 16 },
+    divider: { height: 1, backgroundColor: UI.divider, marginTop: 10 },
+
+    field: { marginTop: 12 },
+    label: { color: UI.subtext, marginBottom: 6, fontWeight: "800", fontSize: 12 },
+    help: { marginTop: 6, color: UI.subtext, fontSize: 12 },
+
+    input: {
+      borderWidth: 1,
+      borderColor: UI.border,
+      borderRadius: 14,
+      padding: 12,
+      color: UI.text,
+      backgroundColor: UI.inputBg,
+    },
+
+    pickerWrap: {
+      borderWidth: 1,
+      borderColor: UI.border,
+      borderRadius: 14,
+      overflow: "hidden",
+      backgroundColor: UI.inputBg,
+    },
+    picker: { color: UI.text },
+    pickerSelected: {
+      marginTop: 6,
+      color: UI.subtext,
+      fontSize: 12,
+      fontWeight: "800",
+    },
+
+    markerHeader: { flexDirection: "row", alignItems: "center", justifyContent: "space-between" },
+    count: { color: UI.subtext, fontWeight: "900" },
+    empty: { marginTop: 10, color: UI.subtext },
+
+    markerRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 12,
+      paddingVertical: 12,
+    },
+    markerActions: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 10,
+      marginLeft: 8,
+    },
+    sessionRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 8,
+      paddingVertical: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: UI.divider,
+    },
+    sessionMeta: { marginTop: 2, color: UI.subtext, fontSize: 11, fontWeight: "700" },
+    markerTc: { fontWeight: "900", color: UI.text },
+    markerRange: { marginTop: 1, color: UI.subtext, fontSize: 12, fontWeight: "800" },
+    rangePending: {
+      alignSelf: "center",
+      marginTop: 12,
+      paddingVertical: 6,
+      paddingHorizontal: 12,
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: UI.primary,
+      backgroundColor: UI.summaryBg,
+    },
+    rangePendingText: { color: UI.primary, fontWeight: "800", fontSize: 12 },
+    markerComment: { marginTop: 2, color: UI.subtext, fontSize: 13 },
+    editLink: { color: UI.primary, fontWeight: "800", fontSize: 13 },
+
+    summaryBox: {
+      marginTop: 12,
+      padding: 12,
+      borderRadius: 14,
+      backgroundColor: UI.summaryBg,
+      borderWidth: 1,
+      borderColor: UI.summaryBorder,
+    },
+    summaryTitle: { fontWeight: "900", marginBottom: 6, color: UI.text },
+    summaryText: { color: UI.subtext, lineHeight: 20 },
+
+    modalBg: {
+      flex: 1,
+      backgroundColor: UI.overlay,
+      justifyContent: "center",
+      padding: 20,
+    },
+    modal: {
+      backgroundColor: UI.modal,
+      borderRadius: 18,
+      padding: 14,
+      borderWidth: 1,
+      borderColor: UI.border,
+      shadowColor: "#000",
+      shadowOpacity: 0.08,
+      shadowRadius: 24,
+      shadowOffset: { width: 0, height: 14 },
+      elevation: 3,
+    },
+    modalHeader: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+    },
+    modalTitle: { color: UI.text, fontWeight: "900", fontSize: 16 },
+    modalSubtitle: { marginTop: 6, color: UI.subtext, fontSize: 12 },
+    exportList: { maxHeight: 420 },
+    progressTrack: {
+      marginTop: 14,
+      height: 6,
+      borderRadius: 999,
+      backgroundColor: UI.border,
+      overflow: "hidden",
+    },
+    progressFill: { height: "100%", backgroundColor: UI.primary },
+    tcPreview: {
+      marginTop: 10,
+      color: UI.text,
+      fontWeight: "900",
+      fontSize: 18,
+      letterSpacing: 0.6,
+    },
+    close: { color: UI.subtext, fontWeight: "800" },
+
+    tcRow: {
+      marginTop: 12,
+      flexDirection: "row",
+      alignItems: "flex-start",
+      justifyContent: "space-between",
+      gap: 8,
+      position: "relative",
+      width: "100%",
+    },
+    tcCol: {
+      flex: 1,
+      minWidth: 64,
+      maxWidth: 110,
+    },
+    tcSep: {
+      position: "absolute",
+      top: 120,
+      transform: [{ translateX: -6 }],
+      color: UI.subtext,
+      fontWeight: "900",
+      fontSize: 22,
+      opacity: 0.55,
+    },
+
+    wheelLabel: {
+      color: UI.subtext,
+      marginBottom: 6,
+      paddingLeft: 6,
+      fontWeight: "800",
+      fontSize: 12,
+    },
+    wheelBox: {
+      borderWidth: 1,
+      borderColor: UI.border,
+      borderRadius: 18,
+      overflow: "hidden",
+      backgroundColor: UI.inputBg,
+      paddingVertical: 10,
+      paddingHorizontal: 6,
+    },
+    wheelBoxTight: {
+      paddingVertical: 8,
+      paddingHorizontal: 4,
+    },
+
+    toggleRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "space-between",
+      paddingVertical: 8,
+    },
+    toggleText: { color: UI.text, fontWeight: "800" },
+
+    // toggle ordinamento markers
+    sortRow: {
+      marginTop: 8,
+      marginBottom: 4,
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "space-between",
+    },
+    sortLabel: {
+      color: UI.subtext,
+      fontSize: 12,
+      fontWeight: "800",
+    },
+    sortPills: {
+      flexDirection: "row",
+      gap: 6,
+    },
+    sortPill: {
+      borderRadius: 999,
+      paddingVertical: 4,
+      paddingHorizontal: 10,
+      borderWidth: 1,
+      borderColor: UI.border,
+      backgroundColor: UI.surface,
+    },
+    sortPillActive: {
+      borderColor: UI.primary,
+      backgroundColor: UI.summaryBg,
+    },
+    sortPillText: {
+      fontSize: 11,
+      fontWeight: "800",
+      color: UI.subtext,
+    },
+    sortPillTextActive: {
+      color: UI.primary,
+    },
+
+    markerIndex: {
+      width: 26,
+      height: 26,
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: UI.border,
+      backgroundColor: UI.surface,
+      alignItems: "center",
+      justifyContent: "center",
+      marginRight: 8,
+    },
+    categoryChips: { flexDirection: "row", flexWrap: "wrap", gap: 6 },
+    categoryChip: { flexDirection: "row", alignItems: "center", gap: 6, paddingVertical: 6 },
+    categoryDot: { width: 10, height: 10, borderRadius: 999 },
+    categoryRow: { flexDirection: "row", alignItems: "center", gap: 10, marginTop: 8 },
+    categorySwatch: {
+      width: 26,
+      height: 26,
+      borderRadius: 999,
+      borderWidth: 1,
+      borderColor: UI.border,
+    },
+    markerIndexText: {
+      color: UI.text,
+      fontWeight: "900",
+      fontSize: 12,
+    },
+    fpsRadio: {
+  flex: 1,
+  minWidth: "22%",
+  paddingVertical: 10,
+  borderRadius: 999,
+  borderWidth: 1,
+  borderColor: UI.border,
+  backgroundColor: UI.surface,
+  alignItems: "center",
+},
+
+fpsRadioActive: {
+  backgroundColor: UI.summaryBg,
+  borderColor: UI.primary,
+},
+
+fpsRadioText: {
+  fontWeight: "800",
+  color: UI.subtext,
+  fontSize: 13,
+},
+
+fpsRadioTextActive: {
+  color: UI.primary,
+},
+topBar: {
+  height: 52,
+  paddingHorizontal: 16,
+  flexDirection: "row",
+  alignItems: "center",
+  justifyContent: "space-between",
+  backgroundColor: UI.bg,
+},
+
+topBarLeft: {
+  flexDirection: "row",
+  alignItems: "center",
+},
+
+topBarLogo: {
+  width: 120,
+  height: 100,
+  marginTop: 15, // prova 4–8 px
+},
+
+topBarRight: {
+  paddingHorizontal: 10,
+  paddingVertical: 4,
+  borderRadius: 999,
+  backgroundColor: UI.surface,
+  borderWidth: 1,
+  borderColor: UI.border,
+},
+
+fpsBadgeText: {
+  color: UI.text,
+  fontWeight: "800",
+  fontSize: 12,
+},
+hero: {
+  marginBottom: 28,
+  paddingVertical: 8,
+},
+
+    bottomBar: {
+      position: "absolute",
+      left: 0,
+      right: 0,
+      bottom: 0,
+      height: 72,
+      flexDirection: "row",
+      justifyContent: "space-evenly",
+      alignItems: "center",
+      backgroundColor: UI.bg,
+      borderTopWidth: 1,
+      borderTopColor: UI.border,
+      paddingBottom: Platform.OS === "ios" ? 12 : 8,
+    },
+});
+
+export type AppStyles = ReturnType<typeof createStyles>;
@@ -0,0 +1,96 @@
+import { useEffect, useRef, useState } from "react";
+
+// Ogni voce conserva solo i campi toccati dall'operazione, con il valore
+// che avevano prima: annullare una cattura non riporta indietro il clock.
+export type HistoryEntry<T> = {
+  id: number;
+  label: string;
+  before: Partial<T>;
+};
+
+type Stacks<T> = {
+  past: HistoryEntry<T>[];
+  future: HistoryEntry<T>[];
+};
+
+const pick = <T extends object>(state: T, keys: (keyof T)[]) => {
+  const out: Partial<T> = {};
+  keys.forEach((k) => {
+    out[k] = state[k];
+  });
+  return out;
+};
+
+/**
+ * Undo/redo a snapshot parziali. `read` restituisce lo stato corrente,
+ * `apply` riscrive i campi ripristinati.
+ */
+export function useUndoHistory<T extends object>(
+  read: () => T,
+  apply: (patch: Partial<T>) => void,
+  limit = 50
+) {
+  // Le pile vivono in un ref: due undo ravvicinati (toast + pulsante) prima
+  // del re-render non devono togliere la stessa voce. Lo state serve solo a
+  // ridisegnare i pulsanti.
+  const stacks = useRef<Stacks<T>>({ past: [], future: [] });
+  const [view, setView] = useState<Stacks<T>>(stacks.current);
+  const nextId = useRef(1);
+
+  // Campi già riscritti da apply ma non ancora arrivati allo stato letto da `read`
+  const applied = useRef<Partial<T>>({});
+  useEffect(() => {
+    applied.current = {};
+  });
+
+  const current = (): T => ({ ...read(), ...applied.current });
+
+  const commit = (next: Stacks<T>) => {
+    stacks.current = next;
+    setView(next);
+  };
+
+  // Da chiamare subito prima di modificare lo stato; restituisce l'id della voce
+  const record = (label: string, keys: (keyof T)[]) => {
+    const entry = { id: nextId.current++, label, before: pick(current(), keys) };
+    commit({ past: [...stacks.current.past.slice(-(limit - 1)), entry], future: [] });
+    return entry.id;
+  };
+
+  const step = (direction: "undo" | "redo", id?: number) => {
+    const { past, future } = stacks.current;
+    const from = direction === "undo" ? past : future;
+    const entry = from[from.length - 1];
+    if (!entry || (id !== undefined && entry.id !== id)) return null;
+
+    const keys = Object.keys(entry.before) as (keyof T)[];
+    const reverse = { ...entry, before: pick(current(), keys) };
+    apply(entry.before);
+    applied.current = { ...applied.current, ...entry.before };
+    commit(
+      direction === "undo"
+        ? { past: past.slice(0, -1), future: [...future, reverse] }
+        : { past: [...past, reverse], future: future.slice(0, -1) }
+    );
+    return entry.label;
+  };
+
+  // Con `id` annulla solo se quella voce è ancora l'ultima (es. il toast)
+  const undo = (id?: number) => step("undo", id);
+  const redo = () => step("redo");
+
+  const clear = () => commit({ past: [], future: [] });
+
+  const top = view.past[view.past.length - 1];
+
+  return {
+    record,
+    undo,
+    redo,
+    clear,
+    canUndo: view.past.length > 0,
+    canRedo: view.future.length > 0,
+    undoLabel: top?.label ?? null,
+    undoId: top?.id ?? null,
+  };
+}
@@ -0,0 +1,45 @@
+/* ---------- Marker categories ---------- */
+
+// Set di colori comune ai marker di Avid (che ne ha solo 8); Resolve e Premiere
+// hanno palette più ampie ma con un equivalente per ciascuno di questi.
+export type MarkerColor =
+  | "red"
+  | "green"
+  | "blue"
+  | "cyan"
+  | "magenta"
+  | "yellow"
+  | "white"
+  | "black";
+
+export const MARKER_COLORS: Record<MarkerColor, { hex: string; onColor: string; label: string }> = {
+  red: { hex: "#E5484D", onColor: "#FFFFFF", label: "Rosso" },
+  green: { hex: "#30A46C", onColor: "#FFFFFF", label: "Verde" },
+  blue: { hex: "#3E63DD", onColor: "#FFFFFF", label: "Blu" },
+  cyan: { hex: "#05A2C2", onColor: "#FFFFFF", label: "Ciano" },
+  magenta: { hex: "#D6409F", onColor: "#FFFFFF", label: "Magenta" },
+  yellow: { hex: "#F5D90A", onColor: "#0B1220", label: "Giallo" },
+  white: { hex: "#F1F3F5", onColor: "#0B1220", label: "Bianco" },
+  black: { hex: "#1C1C1C", onColor: "#FFFFFF", label: "Nero" },
+};
+
+export const MARKER_COLOR_IDS = Object.keys(MARKER_COLORS) as MarkerColor[];
+
+export type MarkerCategory = {
+  id: string;
+  label: string;
+  color: MarkerColor;
+};
+
+export const DEFAULT_CATEGORIES: MarkerCategory[] = [
+  { id: "picture", label: "Immagine", color: "red" },
+  { id: "sound", label: "Suono", color: "blue" },
+  { id: "vfx", label: "VFX", color: "green" },
+  { id: "grade", label: "Colore", color: "cyan" },
+  { id: "music", label: "Musica", color: "magenta" },
+];
+
+export const newCategoryId = () => `cat-${Date.now().toString(36)}`;
+
+export const findCategory = (categories: MarkerCategory[], id?: string | null) =>
+  id ? categories.find((c) => c.id === id) ?? null : null;
@@ -0,0 +1,164 @@
+import {
+  FrameRate,
+  framesToTimecode,
+  isValidTimecode,
+  supportsDropFrame,
+  timecodeToFrames,
+} from "@/lib/timecode";
+
+/* ---------- CMX3600 EDL ---------- */
+
+// Un evento del montaggio, con i TC già convertiti in frame
+export type EdlEvent = {
+  event: number;
+  reel: string;
+  track: string;
+  clipName: string;
+  recIn: number;
+  recOut: number;
+  srcIn: number;
+  srcOut: number;
+};
+
+export type EdlData = {
+  title: string;
+  // nome del file importato
+  fileName: string;
+  dropFrame: boolean;
+  events: EdlEvent[];
+};
+
+export type EdlParseResult = {
+  edl: EdlData;
+  errors: string[];
+};
+
+// Inquadratura in cui cade un marker, con il TC sorgente corrispondente
+export type ShotInfo = {
+  event: EdlEvent;
+  srcFrames: number;
+};
+
+// 001  AX       V     C        00:00:00:00 00:00:05:00 01:00:00:00 01:00:05:00
+// 002  BX       V     D    024 00:00:10:00 00:00:12:00 01:00:05:00 01:00:07:00
+const TC = String.raw`\d{1,2}[:;.]\d{2}[:;.]\d{2}[:;.]\d{2}`;
+const EVENT_RE = new RegExp(
+  String.raw`^\s*(\d+)\s+(\S+)\s+(\S+)\s+(C|D|W\d+|K[BO]?)\s+(?:\d+\s+)?(${TC})\s+(${TC})\s+(${TC})\s+(${TC})\s*$`,
+  "i"
+);
+
+/**
+ * Legge un EDL CMX3600. Il frame rate non è scritto nel file: si usa quello
+ * della sessione, con il drop-frame indicato dalla riga FCM. Nelle
+ * transizioni l'evento di uscita ha durata zero e viene scartato; il clip
+ * entrante copre l'intervallo della dissolvenza.
+ */
+export const parseEdl = (text: string, rate: FrameRate, fileName: string): EdlParseResult => {
+  const errors: string[] = [];
+  const lines = text.replace(/^\uFEFF/, "").split(/\r\n|\r|\n/);
+
+  let title = "";
+  let dropFrame = false;
+  // eventi con lo stesso numero (transizioni: uscente + entrante)
+  let group: EdlEvent[] = [];
+  const all: EdlEvent[] = [];
+
+  // FCM può cambiare a metà file: ogni evento usa l'ultimo valore letto
+  const edlRate = () => ({ ...rate, dropFrame: dropFrame && supportsDropFrame(rate) });
+
+  lines.forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line) return;
+
+    const t = line.match(/^TITLE:\s*(.*)$/i);
+    if (t) {
+      title = t[1].trim();
+      return;
+    }
+    const fcm = line.match(/^FCM:\s*(.*)$/i);
+    if (fcm) {
+      dropFrame = /^DROP/i.test(fcm[1].trim());
+      return;
+    }
+
+    if (line.startsWith("*")) {
+      const from = line.match(/^\*\s*FROM CLIP NAME:\s*(.*)$/i);
+      const to = line.match(/^\*\s*TO CLIP NAME:\s*(.*)$/i);
+      const source = line.match(/^\*\s*SOURCE FILE:\s*(.*)$/i);
+      if (from && group[0]) group[0].clipName = from[1].trim();
+      if (to && group.length > 1) group[group.length - 1].clipName = to[1].trim();
+      if (source && group.length && !group[group.length - 1].clipName) {
+        group[group.length - 1].clipName = source[1].trim();
+      }
+      return;
+    }
+
+    const m = line.match(EVENT_RE);
+    if (!m) {
+      // M2 (speed), SPLIT, note libere: non servono per la ricerca dei clip
+      if (/^\d+\s/.test(line)) errors.push(`Riga ${i + 1}: evento non riconosciuto`);
+      return;
+    }
+
+    const r = edlRate();
+    const tcs = [m[5], m[6], m[7], m[8]];
+    if (tcs.some((tc) => !isValidTimecode(tc, r))) {
+      errors.push(`Riga ${i + 1}: timecode non valido`);
+      return;
+    }
+    const [srcIn, srcOut, recIn, recOut] = tcs.map((tc) => timecodeToFrames(tc, r));
+    const ev: EdlEvent = {
+      event: parseInt(m[1], 10),
+      reel: m[2],
+      track: m[3].toUpperCase(),
+      clipName: "",
+      recIn,
+      recOut,
+      srcIn,
+      srcOut,
+    };
+    if (group.length === 0 || group[0].event !== ev.event) group = [];
+    group.push(ev);
+    all.push(ev);
+  });
+
+  return {
+    edl: {
+      title,
+      fileName,
+      dropFrame: dropFrame && supportsDropFrame(rate),
+      events: all.filter((e) => e.recOut > e.recIn),
+    },
+    errors,
+  };
+};
+
+// Solo le tracce video contano per "in che inquadratura cade": B = video + audio
+const isVideoTrack = (track: string) => /^(V|B)/.test(track);
+
+export const shotAt = (edl: EdlData | null, frames: number): ShotInfo | null => {
+  if (!edl) return null;
+  const video = edl.events.filter((e) => isVideoTrack(e.track));
+  const pool = video.length ? video : edl.events;
+  // in caso di sovrapposizione (dissolvenze, tracce superiori) vince l'ultimo evento
+  let found: EdlEvent | null = null;
+  for (const e of pool) {
+    if (frames >= e.recIn && frames < e.recOut) found = e;
+  }
+  if (!found) return null;
+  return { event: found, srcFrames: found.srcIn + (frames - found.recIn) };
+};
+
+// "#012 • A001C003 • clip.mov"
+export const formatShot = (shot: ShotInfo) =>
+  [
+    `#${String(shot.event.event).padStart(3, "0")}`,
+    shot.event.reel,
+    shot.event.clipName,
+  ]
+    .filter(Boolean)
+    .join(" • ");
+
+// Il TC sorgente si scrive nel formato dell'EDL (FCM)
+export const sourceTimecode = (edl: EdlData, shot: ShotInfo, rate: FrameRate) =>
+  framesToTimecode(shot.srcFrames, { ...rate, dropFrame: edl.dropFrame });
@@ -0,0 +1,82 @@
+import { FrameRate, rateFpsText } from "@/lib/timecode";
+
+/* ---------- Nomi file ---------- */
+
+// Nomi che Windows rifiuta anche con un'estensione ("CON.txt")
+const WINDOWS_RESERVED = /^(con|prn|aux|nul|com[0-9]|lpt[0-9])$/i;
+
+const MAX_NAME_LENGTH = 120;
+
+// Valido su iOS, Android e Windows: niente separatori o caratteri riservati,
+// niente punti o spazi in fondo. Vuoto -> fallback.
+export const sanitizeFileName = (name: string, fallback = "export") => {
+  const cleaned = name
+    .normalize("NFC")
+    .replace(/[\u0000-\u001F\u007F<>:"/\\|?*]+/g, "_")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_NAME_LENGTH)
+    .replace(/[. ]+$/, "");
+  if (!cleaned || /^_+$/.test(cleaned)) return fallback;
+  return WINDOWS_RESERVED.test(cleaned.split(".")[0]) ? `_${cleaned}` : cleaned;
+};
+
+// "Titolo", "Titolo-2", "Titolo-3"... confrontando senza maiuscole, come fanno
+// i file system di iOS e Windows
+export const uniqueName = (name: string, taken: Set<string>) => {
+  let candidate = name;
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) candidate = `${name}-${n}`;
+  taken.add(candidate.toLowerCase());
+  return candidate;
+};
+
+/* ---------- Template dei nomi degli export ---------- */
+
+export type FileNameValues = {
+  project: string;
+  reel: string;
+  title: string;
+  date: Date;
+  rate: FrameRate;
+  count: number;
+  reviewer: string;
+};
+
+export const FILENAME_TOKENS: { token: string; label: string }[] = [
+  { token: "{project}", label: "Progetto" },
+  { token: "{reel}", label: "Rullo" },
+  { token: "{title}", label: "Sessione" },
+  { token: "{date}", label: "Data" },
+  { token: "{fps}", label: "FPS" },
+  { token: "{count}", label: "N. marker" },
+  { token: "{reviewer}", label: "Reviewer" },
+];
+
+// Riproduce i nomi di prima dei template: "markers_23.976fps", "markers_29.97fps_DF"
+export const DEFAULT_FILENAME_TEMPLATE = "markers_{fps}";
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// Segnaposto per i token vuoti, rimosso insieme al separatore che lo precede
+const EMPTY = "\u0000";
+
+export const renderFileName = (template: string, v: FileNameValues) => {
+  // Map e non un oggetto: "{constructor}" o "{toString}" restano token sconosciuti
+  const values = new Map<string, string>([
+    ["project", v.project],
+    ["reel", v.reel],
+    ["title", v.title],
+    ["date", `${v.date.getFullYear()}-${pad(v.date.getMonth() + 1)}-${pad(v.date.getDate())}`],
+    ["fps", `${rateFpsText(v.rate)}fps${v.rate.dropFrame ? "_DF" : ""}`],
+    ["count", String(v.count)],
+    ["reviewer", v.reviewer],
+  ]);
+  const name = (template.trim() || DEFAULT_FILENAME_TEMPLATE)
+    .replace(/\{(\w+)\}/g, (token, key: string) => {
+      const value = values.get(key);
+      return value === undefined ? token : value.trim() || EMPTY;
+    })
+    .replace(/[_\-. ]?\u0000/g, "")
+    .replace(/^[_\-. ]+/, "");
+  return sanitizeFileName(name, "markers");
+};
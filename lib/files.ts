@@ -0,0 +1,183 @@
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system/legacy";
+import { Platform } from "react-native";
+
+/* ---------- File picking ---------- */
+
+export type PickedTextFile = {
+  name: string;
+  text: string;
+};
+
+// null = selezione annullata. Su web FileSystem non esiste: si legge il File del browser.
+export const pickTextFile = async (types: string[] = ["*/*"]): Promise<PickedTextFile | null> => {
+  const res = await DocumentPicker.getDocumentAsync({ type: types, copyToCacheDirectory: true });
+  if (res.canceled || !res.assets?.length) return null;
+
+  const asset = res.assets[0];
+  const text =
+    Platform.OS === "web" && asset.file
+      ? await asset.file.text()
+      : await FileSystem.readAsStringAsync(asset.uri);
+  return { name: asset.name, text };
+};
+
+// Immagine come data URI, da incorporare negli export HTML/PDF
+export const pickImageDataUri = async (): Promise<string | null> => {
+  const res = await DocumentPicker.getDocumentAsync({ type: "image/*", copyToCacheDirectory: true });
+  if (res.canceled || !res.assets?.length) return null;
+
+  const asset = res.assets[0];
+  const mime = asset.mimeType ?? "image/png";
+  if (Platform.OS === "web" && asset.file) {
+    const file = asset.file;
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(String(reader.result));
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(file);
+    });
+  }
+  const base64 = await FileSystem.readAsStringAsync(asset.uri, {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  return `data:${mime};base64,${base64}`;
+};
+
+/* ---------- Destinazione degli export ---------- */
+
+export const fileExists = async (uri: string) => (await FileSystem.getInfoAsync(uri)).exists;
+
+// Primo nome libero: "nome.ext", poi "nome-2.ext", "nome-3.ext"...
+export const nextFreeFileName = async (
+  base: string,
+  extension: string,
+  exists: (fileName: string) => Promise<boolean> | boolean
+) => {
+  let name = `${base}.${extension}`;
+  for (let n = 2; await exists(name); n++) name = `${base}-${n}.${extension}`;
+  return name;
+};
+
+/* ---------- Cartella scelta dall'utente (Android, Storage Access Framework) ---------- */
+
+const SAF = FileSystem.StorageAccessFramework;
+
+// null = permesso negato o selezione annullata
+export const pickExportDirectory = async (current?: string | null) => {
+  const res = await SAF.requestDirectoryPermissionsAsync(current ?? null);
+  return res.granted ? res.directoryUri : null;
+};
+
+// "content://…/tree/primary%3ADCIM%2FLog" -> "DCIM/Log"
+export const directoryLabel = (directoryUri: string) => {
+  const path = decodeURIComponent(directoryUri).split("/tree/").pop() ?? directoryUri;
+  return path.replace(/^[^:]*:/, "") || path;
+};
+
+// Nome file -> URI SAF, per controllare i duplicati prima di scrivere
+export const directoryFiles = async (directoryUri: string) => {
+  const uris = await SAF.readDirectoryAsync(directoryUri);
+  return new Map(uris.map((uri) => [decodeURIComponent(uri).split("/").pop() ?? uri, uri]));
+};
+
+// SAF aggiunge l'estensione del MIME type se non coincide con quella del nome
+// ("x.edl" + text/plain = "x.edl.txt"): per i formati non standard si usa
+// application/octet-stream, che lascia il nome com'è.
+const SAF_MIME_TYPES: Record<string, string> = {
+  txt: "text/plain",
+  csv: "text/csv",
+  json: "application/json",
+  pdf: "application/pdf",
+  zip: "application/zip",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+export const writeToDirectory = async (
+  directoryUri: string,
+  fileName: string,
+  content: string,
+  encoding: FileSystem.EncodingType = FileSystem.EncodingType.UTF8
+) => {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  const uri = await SAF.createFileAsync(
+    directoryUri,
+    fileName,
+    SAF_MIME_TYPES[extension] ?? "application/octet-stream"
+  );
+  await SAF.writeAsStringAsync(uri, content, { encoding });
+  return uri;
+};
+
+/* ---------- Download (web) ---------- */
+
+export const downloadFile = (fileName: string, data: string | Uint8Array, mimeType: string) => {
+  const blob = new Blob([data as BlobPart], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // il download parte in modo asincrono: l'URL serve ancora per un attimo
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Oltre questo tempo l'iframe di stampa si rimuove comunque
+const PRINT_CLEANUP_MS = 60_000;
+
+// Report HTML su web: si stampa da un iframe nascosto e il browser offre
+// "Salva come PDF", proponendo il titolo del documento come nome file.
+export const printHtml = (html: string, title: string) =>
+  new Promise<void>((resolve) => {
+    const iframe = document.createElement("iframe");
+    Object.assign(iframe.style, {
+      position: "fixed",
+      right: "0",
+      bottom: "0",
+      width: "0",
+      height: "0",
+      border: "0",
+    });
+    iframe.onload = async () => {
+      const doc = iframe.contentDocument;
+      const win = iframe.contentWindow;
+      if (!doc || !win) {
+        iframe.remove();
+        resolve();
+        return;
+      }
+      // il logo è un data URI, ma va comunque decodificato prima di stampare
+      await Promise.all(
+        Array.from(doc.images).map((img) =>
+          img.complete ? null : new Promise((done) => (img.onload = img.onerror = done))
+        )
+      );
+      // alcuni browser prendono il nome dal documento principale, altri dall'iframe
+      const previousTitle = document.title;
+      doc.title = title;
+      document.title = title;
+      // afterprint non arriva sempre dagli iframe (alcuni Safari/iOS, dialogo
+      // bloccato): il ritorno del focus e un timeout chiudono comunque
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      const cleanup = () => {
+        if (timer === null) return;
+        clearTimeout(timer);
+        timer = null;
+        window.removeEventListener("focus", onFocus);
+        document.title = previousTitle;
+        iframe.remove();
+        resolve();
+      };
+      const onFocus = () => setTimeout(cleanup, 500);
+      timer = setTimeout(cleanup, PRINT_CLEANUP_MS);
+      win.addEventListener("afterprint", () => setTimeout(cleanup, 0), { once: true });
+      win.focus();
+      win.print();
+      // dove print() blocca il dialogo è già chiuso; altrove il focus torna alla chiusura
+      window.addEventListener("focus", onFocus);
+    };
+    iframe.srcdoc = html;
+    document.body.appendChild(iframe);
+  });
@@ -0,0 +1,59 @@
+import { findCategory } from "@/lib/categories";
+import { FrameRate, framesToSeconds, secondsToFrames, timecodeToFrames } from "@/lib/timecode";
+
+import {
+  byTimecode,
+  ExportContext,
+  ImportedMarker,
+  ImportResult,
+  singleLine,
+  splitLines,
+} from "@/lib/formats/common";
+
+/* ---------- Audacity label track ---------- */
+
+// File > Export > Export Labels: "inizio<TAB>fine<TAB>testo", secondi con
+// sei decimali dall'inizio della traccia (= start TC). Etichetta puntuale
+// se inizio = fine, di regione altrimenti.
+
+export const buildAudacityLabels = ({ markers, rate, startTC, categories }: ExportContext) => {
+  const start = timecodeToFrames(startTC, rate);
+  const sec = (f: number) => framesToSeconds(Math.max(0, f - start), rate).toFixed(6);
+  return (
+    byTimecode(markers)
+      .map((m) => {
+        const cat = findCategory(categories, m.category);
+        const note = singleLine(m.comment);
+        const label = cat ? `[${cat.label}] ${note}`.trim() : note;
+        return `${sec(m.frames)}\t${sec(m.frames + m.duration)}\t${label}`;
+      })
+      .join("\n") + "\n"
+  );
+};
+
+export const parseAudacityLabels = (text: string, rate: FrameRate, startTC: string): ImportResult => {
+  const start = timecodeToFrames(startTC, rate);
+  const markers: ImportedMarker[] = [];
+  const errors: string[] = [];
+
+  splitLines(text).forEach((line, i) => {
+    // le righe "\" sono le frequenze delle etichette spettrali
+    if (!line.trim() || line.startsWith("\\")) return;
+    const [a, b, ...rest] = line.split("\t");
+    const s = Number(a);
+    const e = b === undefined ? s : Number(b);
+    if (!Number.isFinite(s) || !Number.isFinite(e) || s < 0) {
+      errors.push(`Riga ${i + 1}: tempi non validi`);
+      return;
+    }
+    const inF = start + secondsToFrames(s, rate);
+    markers.push({
+      frames: inF,
+      duration: Math.max(0, start + secondsToFrames(e, rate) - inF),
+      comment: rest.join(" ").trim(),
+      color: null,
+    });
+  });
+
+  return { markers, errors };
+};
@@ -0,0 +1,77 @@
+import { findCategory, MARKER_COLOR_IDS, MarkerColor } from "@/lib/categories";
+import { FrameRate, framesToTimecode, isValidTimecode, timecodeToFrames } from "@/lib/timecode";
+
+import {
+  byTimecode,
+  ExportContext,
+  ImportedMarker,
+  ImportResult,
+  singleLine,
+  splitLines,
+} from "@/lib/formats/common";
+
+/* ---------- Avid Media Composer marker list ---------- */
+
+// Formato di File > Export Markers / Import Markers di Media Composer:
+// una riga per marker, campi separati da tab
+//   User  TC  Track  Color  Comment  Duration
+// Duration è in frame e vale almeno 1 (un marker puntuale dura un frame).
+
+export const AVID_USER = "FrameMark";
+export const AVID_TRACK = "V1";
+
+// Senza categoria: bianco, il colore neutro di Avid
+const AVID_DEFAULT_COLOR: MarkerColor = "white";
+
+export const buildAvidMarkers = ({ markers, rate, categories }: ExportContext) =>
+  byTimecode(markers)
+    .map((m) => {
+      const color = findCategory(categories, m.category)?.color ?? AVID_DEFAULT_COLOR;
+      return [
+        AVID_USER,
+        framesToTimecode(m.frames, rate),
+        AVID_TRACK,
+        color,
+        singleLine(m.comment),
+        String(Math.max(1, m.duration)),
+      ].join("\t");
+    })
+    .join("\n") + "\n";
+
+const parseColor = (s: string): MarkerColor | null => {
+  const c = s.trim().toLowerCase();
+  return (MARKER_COLOR_IDS as string[]).includes(c) ? (c as MarkerColor) : null;
+};
+
+// Il TC nel file è quello della sequenza: va letto con il rate della sessione
+export const parseAvidMarkers = (text: string, rate: FrameRate): ImportResult => {
+  const markers: ImportedMarker[] = [];
+  const errors: string[] = [];
+
+  splitLines(text).forEach((line, i) => {
+    if (!line.trim()) return;
+    const cols = line.split("\t");
+    const row = `Riga ${i + 1}`;
+    if (cols.length < 4) {
+      errors.push(`${row}: non è una riga di marker Avid`);
+      return;
+    }
+
+    const tc = cols[1].trim();
+    if (!isValidTimecode(tc, rate)) {
+      errors.push(`${row}: timecode non valido "${tc}"`);
+      return;
+    }
+
+    const dur = parseInt(cols[5] ?? "", 10);
+    markers.push({
+      frames: timecodeToFrames(tc, rate),
+      // 1 frame = marker puntuale
+      duration: Number.isFinite(dur) && dur > 1 ? dur : 0,
+      comment: singleLine(cols[4] ?? ""),
+      color: parseColor(cols[3]),
+    });
+  });
+
+  return { markers, errors };
+};
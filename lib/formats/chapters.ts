@@ -0,0 +1,109 @@
+import { findCategory } from "@/lib/categories";
+import { Marker } from "@/lib/session";
+import { framesToSeconds, timecodeToFrames } from "@/lib/timecode";
+
+import { byTimecode, ExportContext, singleLine } from "@/lib/formats/common";
+
+/* ---------- Capitoli: YouTube e ffmpeg ---------- */
+
+// Regole di YouTube per i capitoli nella descrizione
+export const YOUTUBE_MIN_CHAPTERS = 3;
+export const YOUTUBE_MIN_CHAPTER_SECONDS = 10;
+
+// Titolo: prima riga del commento, poi categoria, poi numero
+const chapterTitle = (m: Marker, index: number, ctx: ExportContext) =>
+  singleLine(m.comment.split(/\r?\n/)[0] ?? "") ||
+  findCategory(ctx.categories, m.category)?.label ||
+  `Capitolo ${index + 1}`;
+
+// "4:05", "1:02:03"
+const youtubeTime = (seconds: number) => {
+  const s = Math.floor(seconds);
+  const hh = Math.floor(s / 3600);
+  const mm = Math.floor(s / 60) % 60;
+  const ss = String(s % 60).padStart(2, "0");
+  return hh > 0 ? `${hh}:${String(mm).padStart(2, "0")}:${ss}` : `${mm}:${ss}`;
+};
+
+/**
+ * Capitoli per la descrizione di YouTube, in secondi interi dallo start TC.
+ * Se il primo marker non è a 0:00 viene aggiunto un capitolo "Inizio";
+ * di più marker nello stesso secondo resta il primo. Le regole violate finiscono in
+ * warnings (YouTube ignora i capitoli in quel caso).
+ */
+export const buildYoutubeChapters = (ctx: ExportContext) => {
+  const start = timecodeToFrames(ctx.startTC, ctx.rate);
+  const warnings: string[] = [];
+  const chapters: { seconds: number; title: string }[] = [];
+
+  byTimecode(ctx.markers).forEach((m, i) => {
+    const seconds = Math.floor(framesToSeconds(Math.max(0, m.frames - start), ctx.rate));
+    const title = chapterTitle(m, i, ctx);
+    const prev = chapters[chapters.length - 1];
+    if (prev && prev.seconds === seconds) {
+      warnings.push(`"${title}" è nello stesso secondo di "${prev.title}": ignorato.`);
+      return;
+    }
+    chapters.push({ seconds, title });
+  });
+
+  if (chapters.length === 0 || chapters[0].seconds > 0) {
+    chapters.unshift({ seconds: 0, title: "Inizio" });
+    warnings.push('Il primo capitolo deve essere a 0:00: aggiunto "Inizio".');
+  }
+  if (chapters.length < YOUTUBE_MIN_CHAPTERS) {
+    warnings.push(`YouTube richiede almeno ${YOUTUBE_MIN_CHAPTERS} capitoli (ce ne sono ${chapters.length}).`);
+  }
+  chapters.forEach((c, i) => {
+    const next = chapters[i + 1];
+    if (next && next.seconds - c.seconds < YOUTUBE_MIN_CHAPTER_SECONDS) {
+      warnings.push(
+        `"${c.title}" (${youtubeTime(c.seconds)}) dura meno di ${YOUTUBE_MIN_CHAPTER_SECONDS} secondi.`
+      );
+    }
+  });
+
+  const text = chapters.map((c) => `${youtubeTime(c.seconds)} ${c.title}`).join("\n") + "\n";
+  return { text, warnings };
+};
+
+// In FFMETADATA "=", ";", "#", "\" e a capo vanno preceduti da "\"
+const ffEscape = (s: string) => s.replace(/[=;#\\\n]/g, (c) => `\\${c}`);
+
+/**
+ * File FFMETADATA1 per `ffmpeg -i video -i chapters.txt -map_metadata 1`.
+ * TIMEBASE è la durata di un frame, quindi START/END sono frame dallo
+ * start TC. Di più marker sullo stesso frame (o prima dello start TC, che
+ * finiscono a 0) resta il primo, così ogni capitolo ha END > START. Ogni
+ * capitolo finisce dove inizia il successivo; l'ultimo al suo OUT (o dopo
+ * un frame, se è un marker puntuale).
+ */
+export const buildFfmetadata = (ctx: ExportContext) => {
+  const { rate, session } = ctx;
+  const start = timecodeToFrames(ctx.startTC, rate);
+  const chapters: { start: number; duration: number; title: string }[] = [];
+
+  byTimecode(ctx.markers).forEach((m, i) => {
+    const s = Math.max(0, m.frames - start);
+    if (chapters.length > 0 && chapters[chapters.length - 1].start === s) return;
+    chapters.push({ start: s, duration: m.duration, title: chapterTitle(m, i, ctx) });
+  });
+
+  const lines = [";FFMETADATA1"];
+  if (session?.title) lines.push(`title=${ffEscape(session.title)}`);
+
+  chapters.forEach((c, i) => {
+    const next = chapters[i + 1];
+    const e = next ? next.start : c.start + Math.max(1, c.duration);
+    lines.push(
+      "",
+      "[CHAPTER]",
+      `TIMEBASE=${rate.den}/${rate.num}`,
+      `START=${c.start}`,
+      `END=${e}`,
+      `title=${ffEscape(c.title)}`
+    );
+  });
+
+  return lines.join("\n") + "\n";
+};
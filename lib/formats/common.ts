@@ -0,0 +1,81 @@
+import { MARKER_COLORS, MarkerCategory, MarkerColor, newCategoryId } from "@/lib/categories";
+import { EdlData } from "@/lib/edl";
+import { Marker, SessionMeta } from "@/lib/session";
+import { FrameRate } from "@/lib/timecode";
+
+/* ---------- Export / import shared types ---------- */
+
+// Tutto ciò che serve ai builder: niente stato React, solo dati
+export type ExportContext = {
+  markers: Marker[];
+  rate: FrameRate;
+  startTC: string;
+  categories: MarkerCategory[];
+  session: SessionMeta | null;
+  summary: string;
+  edl: EdlData | null;
+};
+
+// Marker letto da un file esterno, prima di entrare nella sessione
+export type ImportedMarker = {
+  frames: number;
+  duration: number;
+  comment: string;
+  color: MarkerColor | null;
+};
+
+export type ImportResult = {
+  markers: ImportedMarker[];
+  // righe scartate, già formattate per l'utente
+  errors: string[];
+};
+
+// Gli NLE vogliono i marker in ordine di timecode, indipendentemente dal sortMode
+export const byTimecode = (markers: Marker[]) =>
+  [...markers].sort((a, b) => a.frames - b.frames || a.id - b.id);
+
+// Una riga per campo: tab e a capo rompono i formati delimitati
+export const singleLine = (s: string) => s.replace(/[\t\r\n]+/g, " ").trim();
+
+export const splitLines = (text: string) =>
+  text.replace(/^\uFEFF/, "").split(/\r\n|\r|\n/);
+
+// Colori importati -> categorie della sessione: la prima con lo stesso colore,
+// altrimenti una nuova col nome del colore. Il bianco è il "senza categoria"
+// degli export, quindi resta tale se la sessione non ha una categoria bianca.
+export const categoriesForImport = (imported: ImportedMarker[], categories: MarkerCategory[]) => {
+  const next = [...categories];
+  const byColor = new Map<MarkerColor, string>();
+  imported.forEach(({ color }) => {
+    if (!color || byColor.has(color)) return;
+    const found = next.find((c) => c.color === color);
+    if (found) {
+      byColor.set(color, found.id);
+    } else if (color !== "white") {
+      const cat = { id: `${newCategoryId()}-${color}`, label: MARKER_COLORS[color].label, color };
+      next.push(cat);
+      byColor.set(color, cat.id);
+    }
+  });
+  return {
+    categories: next.length === categories.length ? categories : next,
+    categoryFor: (color: MarkerColor | null) => (color ? byColor.get(color) ?? null : null),
+  };
+};
+
+// Campo CSV: virgolette solo se servono, raddoppiate all'interno
+export const csvField = (value: string | number, delimiter = ",") => {
+  const s = String(value);
+  return s.includes(delimiter) || /["\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export const csvRow = (fields: (string | number)[], delimiter = ",") =>
+  fields.map((f) => csvField(f, delimiter)).join(delimiter);
+
+export const xmlEscape = (s: string) =>
+  s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
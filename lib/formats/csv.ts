@@ -0,0 +1,128 @@
+import { findCategory } from "@/lib/categories";
+import { formatShot, shotAt, sourceTimecode } from "@/lib/edl";
+import { durationToTimecode, MARKER_STATUS_LABELS } from "@/lib/markers";
+import { Marker } from "@/lib/session";
+import { framesToSeconds, framesToTimecode, timecodeToFrames } from "@/lib/timecode";
+
+import { byTimecode, ExportContext, singleLine } from "@/lib/formats/common";
+
+/* ---------- CSV / TSV configurabile ---------- */
+
+export type CsvColumn =
+  | "index"
+  | "timecode"
+  | "seconds"
+  | "frames"
+  | "comment"
+  | "category"
+  | "status"
+  | "author"
+  | "capturedAt"
+  | "duration"
+  | "source"
+  | "sourceTc";
+
+export type CsvDelimiter = "," | ";" | "\t";
+
+export type CsvOptions = {
+  // ordine di uscita = ordine di CSV_COLUMNS, qui conta solo quali ci sono
+  columns: CsvColumn[];
+  delimiter: CsvDelimiter;
+  // "auto": virgolette solo dove servono; "all": su ogni campo
+  quoting: "auto" | "all";
+  header: boolean;
+  // Excel apre i CSV senza BOM come ANSI e rovina le lettere accentate
+  bom: boolean;
+};
+
+export const CSV_COLUMNS: { id: CsvColumn; label: string }[] = [
+  { id: "index", label: "#" },
+  { id: "timecode", label: "Timecode" },
+  { id: "seconds", label: "Secondi" },
+  { id: "frames", label: "Frame" },
+  { id: "duration", label: "Durata" },
+  { id: "comment", label: "Commento" },
+  { id: "category", label: "Categoria" },
+  { id: "status", label: "Stato" },
+  { id: "author", label: "Autore" },
+  { id: "capturedAt", label: "Catturato il" },
+  { id: "source", label: "Clip sorgente" },
+  { id: "sourceTc", label: "TC sorgente" },
+];
+
+export const CSV_DELIMITERS: { id: CsvDelimiter; label: string }[] = [
+  { id: ",", label: "Virgola" },
+  { id: ";", label: "Punto e virgola" },
+  { id: "\t", label: "Tab (TSV)" },
+];
+
+export const DEFAULT_CSV_OPTIONS: CsvOptions = {
+  columns: ["index", "timecode", "duration", "category", "status", "comment"],
+  delimiter: ",",
+  quoting: "auto",
+  header: true,
+  bom: true,
+};
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// "2026-03-14 18:05:09", ora locale: Excel la riconosce come data
+const formatWallClock = (ms: number) => {
+  const d = new Date(ms);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+};
+
+const quote = (value: string, { delimiter, quoting }: CsvOptions) =>
+  quoting === "all" || value.includes(delimiter) || /["\r\n]/.test(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+
+// Secondi e frame sono contati dallo start TC, come in un player
+export const buildCsv = (ctx: ExportContext, options: CsvOptions) => {
+  const { rate, startTC, categories, edl } = ctx;
+  const start = timecodeToFrames(startTC, rate);
+  const columns = CSV_COLUMNS.filter((c) => options.columns.includes(c.id));
+  // con il ";" (Excel italiano) anche i decimali vanno con la virgola
+  const decimal = (n: number) => {
+    const s = n.toFixed(3);
+    return options.delimiter === ";" ? s.replace(".", ",") : s;
+  };
+
+  const cell = (m: Marker, index: number, col: CsvColumn): string => {
+    const shot = shotAt(edl, m.frames);
+    switch (col) {
+      case "index":
+        return String(index + 1);
+      case "timecode":
+        return framesToTimecode(m.frames, rate);
+      case "seconds":
+        return decimal(framesToSeconds(m.frames - start, rate));
+      case "frames":
+        return String(m.frames - start);
+      case "duration":
+        return durationToTimecode(m.duration, rate);
+      case "comment":
+        return options.delimiter === "\t" ? singleLine(m.comment) : m.comment.trim();
+      case "category":
+        return findCategory(categories, m.category)?.label ?? "";
+      case "status":
+        return m.status ? MARKER_STATUS_LABELS[m.status] : "";
+      case "author":
+        return m.author;
+      case "capturedAt":
+        return m.capturedAt ? formatWallClock(m.capturedAt) : "";
+      case "source":
+        return shot ? formatShot(shot) : "";
+      case "sourceTc":
+        return edl && shot ? sourceTimecode(edl, shot, rate) : "";
+    }
+  };
+
+  const lines = byTimecode(ctx.markers).map((m, i) =>
+    columns.map((c) => quote(cell(m, i, c.id), options)).join(options.delimiter)
+  );
+  if (options.header) {
+    lines.unshift(columns.map((c) => quote(c.label, options)).join(options.delimiter));
+  }
+  return (options.bom ? "\uFEFF" : "") + lines.join("\r\n") + "\r\n";
+};
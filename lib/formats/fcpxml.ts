@@ -0,0 +1,68 @@
+import { findCategory } from "@/lib/categories";
+import { FrameRate, timecodeToFrames } from "@/lib/timecode";
+
+import { byTimecode, ExportContext, singleLine, xmlEscape } from "@/lib/formats/common";
+
+/* ---------- Final Cut Pro FCPXML ---------- */
+
+// FCPXML 1.10: un progetto con un solo gap nella spine, i marker agganciati
+// al gap. I tempi sono razionali in secondi ("1001/24000s"), quindi il conto
+// in frame reali vale anche per il drop-frame.
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+export const fcpTime = (frames: number, rate: FrameRate) => {
+  const num = frames * rate.den;
+  const d = gcd(num, rate.num) || 1;
+  const n = num / d;
+  const den = rate.num / d;
+  return den === 1 ? `${n}s` : `${n}/${den}s`;
+};
+
+export const buildFcpxml = ({ markers, rate, startTC, categories, session }: ExportContext) => {
+  const start = timecodeToFrames(startTC, rate);
+  const ordered = byTimecode(markers);
+  const end = ordered.reduce((acc, m) => Math.max(acc, m.frames + Math.max(1, m.duration)), start + 1);
+  const t = (f: number) => fcpTime(f, rate);
+  const attr = (s: string) => xmlEscape(singleLine(s));
+
+  const items = ordered.flatMap((m, i) => {
+    const cat = findCategory(categories, m.category);
+    const dur = t(Math.max(1, m.duration));
+    const value = attr(m.comment) || xmlEscape(cat?.label ?? `Marker ${i + 1}`);
+    // completed="0" = to-do da fare, "1" = to-do completato
+    const todo = m.status ? ` completed="${m.status === "done" ? 1 : 0}"` : "";
+    const note = cat ? ` note="${xmlEscape(cat.label)}"` : "";
+    const lines = [`<marker start="${t(m.frames)}" duration="${dur}" value="${value}"${note}${todo}/>`];
+    // FCP non colora i marker: la categoria diventa una keyword sullo stesso intervallo
+    if (cat) lines.push(`<keyword start="${t(m.frames)}" duration="${dur}" value="${xmlEscape(cat.label)}"/>`);
+    return lines.map((l) => `            ${l}`);
+  });
+
+  const title = xmlEscape(session?.title || "FrameMark");
+  const event = xmlEscape(session?.project || "FrameMark");
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    "<!DOCTYPE fcpxml>",
+    '<fcpxml version="1.10">',
+    "  <resources>",
+    `    <format id="r1" frameDuration="${t(1)}" width="1920" height="1080"/>`,
+    "  </resources>",
+    "  <library>",
+    `    <event name="${event}">`,
+    `      <project name="${title}">`,
+    `        <sequence format="r1" duration="${t(end - start)}" tcStart="${t(start)}" tcFormat="${rate.dropFrame ? "DF" : "NDF"}">`,
+    "          <spine>",
+    `            <gap name="${title}" offset="${t(start)}" start="${t(start)}" duration="${t(end - start)}">`,
+    ...items.map((l) => `  ${l}`),
+    "            </gap>",
+    "          </spine>",
+    "        </sequence>",
+    "      </project>",
+    "    </event>",
+    "  </library>",
+    "</fcpxml>",
+    "",
+  ].join("\n");
+};
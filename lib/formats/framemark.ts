@@ -0,0 +1,275 @@
+import { DEFAULT_CATEGORIES, MARKER_COLOR_IDS, MarkerCategory } from "@/lib/categories";
+import { EdlData, EdlEvent } from "@/lib/edl";
+import {
+  createSession,
+  emptySnapshot,
+  Marker,
+  SessionFields,
+  SessionSnapshot,
+} from "@/lib/session";
+import {
+  conformTimecode,
+  FrameRate,
+  framesToTimecode,
+  isSupportedRate,
+  makeRate,
+  supportsDropFrame,
+} from "@/lib/timecode";
+
+import { ExportContext } from "@/lib/formats/common";
+
+/* ---------- FrameMark JSON (.framemark.json) ---------- */
+
+// Formato di scambio delle sessioni tra dispositivi. Documento:
+//   format      "framemark"
+//   version     intero, FRAMEMARK_VERSION per i file scritti da questa build
+//   exportedAt  ISO 8601
+//   session     { title, project, reel, createdAt (ms epoch) }
+//   rate        { num, den, dropFrame }
+//   startTC     "HH:MM:SS:FF" (";" prima dei frame in drop-frame)
+//   markers     [{ id, frames, timecode, duration, comment, category, status,
+//                 author, capturedAt }]
+//               frames è il riferimento; timecode è solo per chi legge il file
+//   categories  [{ id, label, color }]
+//   summary     testo del riepilogo
+//   edl         EDL caricato nella sessione, oppure null
+// I campi aggiunti in futuro devono avere un default, così i file vecchi restano validi.
+
+export const FRAMEMARK_FORMAT = "framemark";
+export const FRAMEMARK_VERSION = 1;
+export const FRAMEMARK_EXTENSION = "framemark.json";
+// Tipo dichiarato in app.json (iOS): l'app si registra solo per questi file, non per ogni JSON
+export const FRAMEMARK_UTI = "io.roughmind.framemark.session";
+
+export type FramemarkFile = {
+  format: typeof FRAMEMARK_FORMAT;
+  version: number;
+  exportedAt: string;
+  session: SessionFields & { createdAt: number };
+  rate: FrameRate;
+  startTC: string;
+  markers: (Marker & { timecode: string })[];
+  categories: MarkerCategory[];
+  summary: string;
+  edl: EdlData | null;
+};
+
+export const buildFramemarkJson = ({
+  markers,
+  rate,
+  startTC,
+  categories,
+  session,
+  summary,
+  edl,
+}: ExportContext) => {
+  const doc: FramemarkFile = {
+    format: FRAMEMARK_FORMAT,
+    version: FRAMEMARK_VERSION,
+    exportedAt: new Date().toISOString(),
+    session: {
+      title: session?.title ?? "",
+      project: session?.project ?? "",
+      reel: session?.reel ?? "",
+      createdAt: session?.createdAt ?? Date.now(),
+    },
+    rate,
+    startTC,
+    markers: markers.map((m) => ({ ...m, timecode: framesToTimecode(m.frames, rate) })),
+    categories,
+    summary,
+    edl,
+  };
+  return JSON.stringify(doc, null, 2) + "\n";
+};
+
+/* ---------- Import ---------- */
+
+// Oggetto JSON letto dal file: ogni campo va controllato prima dell'uso
+type RawObject = Record<string, unknown>;
+
+// Migrazioni: MIGRATIONS[n] porta un documento dalla versione n alla n + 1.
+// Vuoto finché esiste solo la versione 1.
+const MIGRATIONS: Record<number, (doc: RawObject) => RawObject> = {};
+
+export type FramemarkImport = {
+  fields: SessionFields;
+  snapshot: SessionSnapshot;
+};
+
+export type FramemarkParseResult = {
+  // null = file non importabile, il motivo è in errors
+  session: FramemarkImport | null;
+  errors: string[];
+};
+
+const isObject = (v: unknown): v is RawObject =>
+  !!v && typeof v === "object" && !Array.isArray(v);
+const str = (v: unknown, fallback = "") => (typeof v === "string" ? v : fallback);
+const isCount = (v: unknown): v is number =>
+  typeof v === "number" && Number.isInteger(v) && v >= 0;
+
+const fail = (error: string): FramemarkParseResult => ({ session: null, errors: [error] });
+
+// Stessi limiti di parseRate; il drop-frame si tiene solo dove esiste (29.97 / 59.94)
+const readRate = (v: unknown): FrameRate | null => {
+  if (!isObject(v)) return null;
+  const { num, den } = v;
+  if (!isCount(num) || !isCount(den) || num === 0 || den === 0) return null;
+  const rate = makeRate(num, den);
+  if (!isSupportedRate(rate)) return null;
+  return { ...rate, dropFrame: v.dropFrame === true && supportsDropFrame(rate) };
+};
+
+// Eventi con campi mancanti o non numerici vengono scartati, non copiati alla cieca
+const readEdl = (v: unknown, rate: FrameRate, errors: string[]): EdlData | null => {
+  if (v === null || v === undefined) return null;
+  if (!isObject(v) || !Array.isArray(v.events)) {
+    errors.push("EDL non valido, ignorato.");
+    return null;
+  }
+  const events: EdlEvent[] = [];
+  let dropped = 0;
+  v.events.forEach((e: unknown) => {
+    if (
+      !isObject(e) ||
+      !isCount(e.event) ||
+      typeof e.reel !== "string" ||
+      typeof e.track !== "string" ||
+      !isCount(e.recIn) ||
+      !isCount(e.recOut) ||
+      !isCount(e.srcIn) ||
+      !isCount(e.srcOut) ||
+      e.recOut <= e.recIn
+    ) {
+      dropped++;
+      return;
+    }
+    events.push({
+      event: e.event,
+      reel: e.reel,
+      track: e.track,
+      clipName: str(e.clipName),
+      recIn: e.recIn,
+      recOut: e.recOut,
+      srcIn: e.srcIn,
+      srcOut: e.srcOut,
+    });
+  });
+  if (events.length === 0) {
+    errors.push("EDL senza eventi validi, ignorato.");
+    return null;
+  }
+  if (dropped > 0) errors.push(`EDL: ${dropped} eventi non validi ignorati.`);
+  return {
+    title: str(v.title),
+    fileName: str(v.fileName),
+    dropFrame: v.dropFrame === true && supportsDropFrame(rate),
+    events,
+  };
+};
+
+export const parseFramemarkJson = (text: string): FramemarkParseResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text.replace(/^\uFEFF/, ""));
+  } catch {
+    return fail("Il file non è un JSON valido.");
+  }
+  if (!isObject(parsed) || parsed.format !== FRAMEMARK_FORMAT) {
+    return fail("Il file non è una sessione FrameMark.");
+  }
+  const { version } = parsed;
+  if (!isCount(version) || version < 1) {
+    return fail("Versione del file mancante o non valida.");
+  }
+  if (version > FRAMEMARK_VERSION) {
+    return fail(
+      `Il file è stato creato con una versione più recente di FrameMark (formato v${version}). Aggiorna l'app per importarlo.`
+    );
+  }
+  let doc = parsed;
+  for (let v = version; v < FRAMEMARK_VERSION; v++) {
+    const migrate = MIGRATIONS[v];
+    if (!migrate) return fail(`Nessuna migrazione disponibile dalla versione ${v}.`);
+    doc = migrate(doc);
+  }
+
+  const rate = readRate(doc.rate);
+  if (!rate) return fail("Frame rate mancante o non valido.");
+
+  const errors: string[] = [];
+  if (isObject(doc.rate) && doc.rate.dropFrame === true && !rate.dropFrame) {
+    errors.push("Drop-frame non previsto per questo frame rate: importato come non drop-frame.");
+  }
+  const startTC = conformTimecode(str(doc.startTC, "01:00:00:00"), rate);
+
+  const categories: MarkerCategory[] = Array.isArray(doc.categories)
+    ? doc.categories.filter(
+        (c: unknown): c is MarkerCategory =>
+          isObject(c) &&
+          typeof c.id === "string" &&
+          typeof c.label === "string" &&
+          MARKER_COLOR_IDS.some((id) => id === c.color)
+      )
+    : DEFAULT_CATEGORIES;
+  const categoryIds = new Set(categories.map((c) => c.id));
+
+  const rawMarkers: unknown[] = Array.isArray(doc.markers) ? doc.markers : [];
+  if (!Array.isArray(doc.markers)) errors.push("Elenco markers mancante: sessione importata vuota.");
+
+  const markers: Marker[] = [];
+  rawMarkers.forEach((m, i) => {
+    if (!isObject(m) || !isCount(m.frames)) {
+      errors.push(`Marker ${i + 1}: posizione non valida, ignorato`);
+      return;
+    }
+    markers.push({
+      id: isCount(m.id) ? m.id : 0,
+      frames: m.frames,
+      duration: isCount(m.duration) ? m.duration : 0,
+      comment: str(m.comment),
+      category: typeof m.category === "string" && categoryIds.has(m.category) ? m.category : null,
+      status: m.status === "open" || m.status === "done" ? m.status : null,
+      author: str(m.author),
+      capturedAt: isCount(m.capturedAt) ? m.capturedAt : null,
+    });
+  });
+  // id rinumerati nell'ordine di creazione originale: nel file potrebbero ripetersi
+  markers
+    .sort((a, b) => a.id - b.id)
+    .forEach((m, i) => {
+      m.id = i + 1;
+    });
+
+  const edl = readEdl(doc.edl, rate, errors);
+
+  const session: RawObject = isObject(doc.session) ? doc.session : {};
+  const snapshot: SessionSnapshot = {
+    ...emptySnapshot(rate, startTC),
+    markers,
+    categories,
+    summary: str(doc.summary),
+    edl,
+  };
+
+  return {
+    session: {
+      fields: {
+        title: str(session.title).trim() || "Sessione importata",
+        project: str(session.project),
+        reel: str(session.reel),
+      },
+      snapshot,
+    },
+    errors,
+  };
+};
+
+// Il file diventa sempre una nuova sessione della libreria; meta null = non importato
+export const importFramemarkSession = async (text: string) => {
+  const { session, errors } = parseFramemarkJson(text);
+  if (!session) return { meta: null, errors };
+  const meta = await createSession(session.fields, undefined, session.snapshot);
+  return { meta, errors };
+};
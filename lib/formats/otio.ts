@@ -0,0 +1,101 @@
+import { findCategory, MarkerColor } from "@/lib/categories";
+import { rateToFps, timecodeToFrames } from "@/lib/timecode";
+
+import { byTimecode, ExportContext } from "@/lib/formats/common";
+
+/* ---------- OpenTimelineIO (.otio) ---------- */
+
+// Timeline con un solo track video che contiene un Gap lungo quanto la
+// sessione; i marker sono agganciati al Gap, con marked_range in frame
+// dall'inizio del Gap (= start TC, che va in global_start_time).
+
+const OTIO_COLORS: Record<MarkerColor, string> = {
+  red: "RED",
+  green: "GREEN",
+  blue: "BLUE",
+  cyan: "CYAN",
+  magenta: "MAGENTA",
+  yellow: "YELLOW",
+  white: "WHITE",
+  black: "BLACK",
+};
+
+export const buildOtio = ({ markers, rate, startTC, categories, session }: ExportContext) => {
+  const fps = rateToFps(rate);
+  const start = timecodeToFrames(startTC, rate);
+  const ordered = byTimecode(markers);
+  const end = ordered.reduce((acc, m) => Math.max(acc, m.frames + Math.max(1, m.duration)), start + 1);
+
+  const time = (value: number) => ({ OTIO_SCHEMA: "RationalTime.1", rate: fps, value });
+  const range = (from: number, duration: number) => ({
+    OTIO_SCHEMA: "TimeRange.1",
+    start_time: time(from),
+    duration: time(duration),
+  });
+
+  const otioMarkers = ordered.map((m, i) => {
+    const cat = findCategory(categories, m.category);
+    return {
+      OTIO_SCHEMA: "Marker.2",
+      name: cat?.label ?? `Marker ${i + 1}`,
+      color: cat ? OTIO_COLORS[cat.color] : OTIO_COLORS.red,
+      marked_range: range(Math.max(0, m.frames - start), m.duration),
+      comment: m.comment.trim(),
+      metadata: {
+        framemark: {
+          comment: m.comment,
+          category: cat?.label ?? null,
+          status: m.status,
+          author: m.author,
+          capturedAt: m.capturedAt,
+        },
+      },
+    };
+  });
+
+  const title = session?.title || "FrameMark";
+  const timeline = {
+    OTIO_SCHEMA: "Timeline.1",
+    name: title,
+    global_start_time: time(start),
+    metadata: {
+      framemark: {
+        project: session?.project ?? "",
+        reel: session?.reel ?? "",
+        rate: { num: rate.num, den: rate.den, dropFrame: rate.dropFrame },
+        startTC,
+      },
+    },
+    tracks: {
+      OTIO_SCHEMA: "Stack.1",
+      name: "tracks",
+      source_range: null,
+      effects: [],
+      markers: [],
+      metadata: {},
+      children: [
+        {
+          OTIO_SCHEMA: "Track.1",
+          name: "Markers",
+          kind: "Video",
+          source_range: null,
+          effects: [],
+          markers: [],
+          metadata: {},
+          children: [
+            {
+              OTIO_SCHEMA: "Gap.1",
+              name: title,
+              source_range: range(0, end - start),
+              effects: [],
+              markers: otioMarkers,
+              metadata: {},
+            },
+          ],
+        },
+      ],
+    },
+  };
+
+  return JSON.stringify(timeline, null, 2) + "\n";
+};
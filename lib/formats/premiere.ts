@@ -0,0 +1,92 @@
+import { findCategory } from "@/lib/categories";
+import { durationToTimecode } from "@/lib/markers";
+import { framesToTimecode, timebase, timecodeToFrames } from "@/lib/timecode";
+
+import { byTimecode, csvRow, ExportContext, singleLine, xmlEscape } from "@/lib/formats/common";
+
+/* ---------- Premiere Pro ---------- */
+
+// Le stesse colonne del pannello Markers (File > Export > Markers)
+const PREMIERE_CSV_HEADER = ["Marker Name", "Description", "In", "Out", "Duration", "Marker Type"];
+
+export const buildPremiereCsv = ({ markers, rate, categories }: ExportContext) => {
+  const rows = byTimecode(markers).map((m) =>
+    csvRow([
+      findCategory(categories, m.category)?.label ?? "",
+      singleLine(m.comment),
+      framesToTimecode(m.frames, rate),
+      framesToTimecode(m.frames + m.duration, rate),
+      durationToTimecode(m.duration, rate),
+      "Comment",
+    ])
+  );
+  return [csvRow(PREMIERE_CSV_HEADER), ...rows].join("\r\n") + "\r\n";
+};
+
+// FCP7 XML (xmeml v4): sequenza vuota con i marker, importabile da Premiere.
+// In/out dei marker sono in frame dall'inizio della sequenza (lo start TC);
+// out = -1 per i marker puntuali.
+export const buildPremiereXml = ({ markers, rate, startTC, categories, session }: ExportContext) => {
+  const start = timecodeToFrames(startTC, rate);
+  const ordered = byTimecode(markers);
+  const end = ordered.reduce((acc, m) => Math.max(acc, m.frames + Math.max(1, m.duration)), start);
+  const duration = Math.max(1, end - start);
+  const name = xmlEscape(session?.title || "FrameMark");
+
+  const rateXml = [
+    "<rate>",
+    `  <timebase>${timebase(rate)}</timebase>`,
+    `  <ntsc>${rate.den === 1001 ? "TRUE" : "FALSE"}</ntsc>`,
+    "</rate>",
+  ];
+  const indent = (lines: string[], n: number) => lines.map((l) => " ".repeat(n) + l);
+
+  const markerXml = ordered.flatMap((m) => {
+    const inF = Math.max(0, m.frames - start);
+    const cat = findCategory(categories, m.category);
+    return indent(
+      [
+        "<marker>",
+        `  <name>${xmlEscape(cat?.label ?? "")}</name>`,
+        `  <comment>${xmlEscape(singleLine(m.comment))}</comment>`,
+        `  <in>${inF}</in>`,
+        `  <out>${m.duration > 0 ? inF + m.duration : -1}</out>`,
+        "</marker>",
+      ],
+      4
+    );
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    "<!DOCTYPE xmeml>",
+    '<xmeml version="4">',
+    '  <sequence id="sequence-1">',
+    `    <name>${name}</name>`,
+    `    <duration>${duration}</duration>`,
+    ...indent(rateXml, 4),
+    "    <timecode>",
+    ...indent(rateXml, 6),
+    `      <string>${framesToTimecode(start, rate)}</string>`,
+    `      <frame>${start}</frame>`,
+    `      <displayformat>${rate.dropFrame ? "DF" : "NDF"}</displayformat>`,
+    "    </timecode>",
+    "    <media>",
+    "      <video>",
+    "        <format>",
+    "          <samplecharacteristics>",
+    ...indent(rateXml, 12),
+    "          </samplecharacteristics>",
+    "        </format>",
+    "        <track/>",
+    "      </video>",
+    "      <audio>",
+    "        <track/>",
+    "      </audio>",
+    "    </media>",
+    ...markerXml,
+    "  </sequence>",
+    "</xmeml>",
+    "",
+  ].join("\n");
+};
@@ -0,0 +1,40 @@
+import { findCategory } from "@/lib/categories";
+import { durationToTimecode } from "@/lib/markers";
+import { framesToSeconds, framesToTimecode, timecodeToFrames } from "@/lib/timecode";
+
+import { byTimecode, ExportContext, singleLine } from "@/lib/formats/common";
+
+/* ---------- Pro Tools memory locations ---------- */
+
+// Stesso layout della sezione "MARKERS LISTING" di File > Export > Session
+// Info as Text: colonne separate da tab, TIME REFERENCE in campioni dallo
+// start della sessione.
+
+export const PROTOOLS_SAMPLE_RATE = 48000;
+
+export const buildProToolsMarkers = ({ markers, rate, startTC, categories }: ExportContext) => {
+  const start = timecodeToFrames(startTC, rate);
+  const rows = byTimecode(markers).map((m, i) => {
+    const cat = findCategory(categories, m.category);
+    const seconds = framesToSeconds(Math.max(0, m.frames - start), rate);
+    const samples = Math.round(seconds * PROTOOLS_SAMPLE_RATE);
+    const name = cat?.label ?? `Marker ${i + 1}`;
+    // Pro Tools non ha marker a intervallo nel listing: la durata va nei commenti
+    const range = m.duration > 0 ? `[Durata ${durationToTimecode(m.duration, rate)}] ` : "";
+    return [
+      String(i + 1).padEnd(4),
+      framesToTimecode(m.frames, rate).padEnd(13),
+      String(samples).padEnd(18),
+      "Samples  ",
+      name.padEnd(33),
+      `${range}${singleLine(m.comment)}`,
+    ].join("\t");
+  });
+
+  return [
+    "M A R K E R S  L I S T I N G",
+    ["#   ", "LOCATION     ", "TIME REFERENCE    ", "UNITS    ", "NAME".padEnd(33), "COMMENTS"].join("\t"),
+    ...rows,
+    "",
+  ].join("\n");
+};
@@ -0,0 +1,151 @@
+import { findCategory, MARKER_COLOR_IDS, MARKER_COLORS, MarkerColor } from "@/lib/categories";
+import {
+  FrameRate,
+  framesToSeconds,
+  isValidTimecode,
+  secondsToFrames,
+  timecodeToFrames,
+} from "@/lib/timecode";
+
+import {
+  byTimecode,
+  csvRow,
+  ExportContext,
+  ImportedMarker,
+  ImportResult,
+  singleLine,
+  splitLines,
+} from "@/lib/formats/common";
+
+/* ---------- Reaper marker / region CSV ---------- */
+
+// Formato del Region/Marker Manager (Export / Import CSV):
+//   #,Name,Start,End,Length,Color
+//   M1,Nota,0:12.500,,,
+//   R1,Da rifare,1:02.000,1:05.000,0:03.000,E5484D
+// M = marker (puntuale), R = regione. I tempi sono h:mm:ss.sss dallo start TC.
+
+const REAPER_HEADER = ["#", "Name", "Start", "End", "Length", "Color"];
+
+// "1:02.000" / "1:01:02.000"
+const reaperTime = (seconds: number) => {
+  const ms = Math.round(seconds * 1000);
+  const hh = Math.floor(ms / 3600000);
+  const mm = Math.floor(ms / 60000) % 60;
+  const ss = ((ms % 60000) / 1000).toFixed(3).padStart(6, "0");
+  return hh > 0 ? `${hh}:${String(mm).padStart(2, "0")}:${ss}` : `${mm}:${ss}`;
+};
+
+export const buildReaperCsv = ({ markers, rate, startTC, categories }: ExportContext) => {
+  const start = timecodeToFrames(startTC, rate);
+  const sec = (f: number) => framesToSeconds(Math.max(0, f - start), rate);
+  let markerCount = 0;
+  let regionCount = 0;
+
+  const rows = byTimecode(markers).map((m) => {
+    const cat = findCategory(categories, m.category);
+    const color = cat ? MARKER_COLORS[cat.color].hex.slice(1) : "";
+    const name = singleLine(m.comment) || cat?.label || "";
+    if (m.duration === 0) {
+      return csvRow([`M${++markerCount}`, name, reaperTime(sec(m.frames)), "", "", color]);
+    }
+    return csvRow([
+      `R${++regionCount}`,
+      name,
+      reaperTime(sec(m.frames)),
+      reaperTime(sec(m.frames + m.duration)),
+      reaperTime(framesToSeconds(m.duration, rate)),
+      color,
+    ]);
+  });
+  return [csvRow(REAPER_HEADER), ...rows].join("\r\n") + "\r\n";
+};
+
+// Il CSV non è solo "a virgole": i nomi possono contenere virgole tra virgolette
+const splitCsvLine = (line: string) => {
+  const out: string[] = [];
+  let cur = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quoted) {
+      if (c === '"' && line[i + 1] === '"') {
+        cur += '"';
+        i++;
+      } else if (c === '"') quoted = false;
+      else cur += c;
+    } else if (c === '"') quoted = true;
+    else if (c === ",") {
+      out.push(cur);
+      cur = "";
+    } else cur += c;
+  }
+  out.push(cur);
+  return out;
+};
+
+// Frame assoluti da un tempo Reaper: secondi, m:ss.sss, h:mm:ss.sss o timecode.
+// Misure.battute dipendono dal tempo del progetto: non convertibili, null.
+const parseReaperTime = (s: string, rate: FrameRate, start: number): number | null => {
+  const t = s.trim();
+  if (/^\d+(\.\d+)?$/.test(t)) return start + secondsToFrames(Number(t), rate);
+  const clock = t.match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/);
+  if (clock) {
+    const seconds = Number(clock[1] ?? 0) * 3600 + Number(clock[2]) * 60 + Number(clock[3]);
+    return start + secondsToFrames(seconds, rate);
+  }
+  if (isValidTimecode(t, rate)) return timecodeToFrames(t, rate);
+  return null;
+};
+
+// Colore Reaper (RRGGBB) -> il più vicino tra i colori dei marker
+const nearestColor = (hex: string): MarkerColor | null => {
+  const m = hex.trim().replace(/^#/, "").match(/^[0-9a-f]{6}$/i);
+  if (!m) return null;
+  const rgb = (h: string) => [0, 2, 4].map((i) => parseInt(h.slice(i, i + 2), 16));
+  const [r, g, b] = rgb(m[0]);
+  let best: MarkerColor | null = null;
+  let bestDist = Infinity;
+  for (const id of MARKER_COLOR_IDS) {
+    const [cr, cg, cb] = rgb(MARKER_COLORS[id].hex.slice(1));
+    const d = (r - cr) ** 2 + (g - cg) ** 2 + (b - cb) ** 2;
+    if (d < bestDist) {
+      bestDist = d;
+      best = id;
+    }
+  }
+  return best;
+};
+
+export const parseReaperCsv = (text: string, rate: FrameRate, startTC: string): ImportResult => {
+  const start = timecodeToFrames(startTC, rate);
+  const markers: ImportedMarker[] = [];
+  const errors: string[] = [];
+
+  splitLines(text).forEach((line, i) => {
+    if (!line.trim()) return;
+    const [id = "", name = "", startCol = "", endCol = "", , color = ""] = splitCsvLine(line);
+    const kind = id.trim().charAt(0).toUpperCase();
+    // intestazione e righe estranee
+    if (kind !== "M" && kind !== "R") return;
+
+    const inF = parseReaperTime(startCol, rate, start);
+    if (inF === null) {
+      errors.push(`Riga ${i + 1}: tempo "${startCol}" non leggibile (esporta in ore:minuti:secondi)`);
+      return;
+    }
+    const outF = kind === "R" && endCol.trim() ? parseReaperTime(endCol, rate, start) : inF;
+    if (outF === null) {
+      errors.push(`Riga ${i + 1}: fine regione "${endCol}" non leggibile`);
+      return;
+    }
+    markers.push({
+      frames: inF,
+      duration: Math.max(0, outF - inF),
+      comment: name.trim(),
+      color: nearestColor(color),
+    });
+  });
+
+  return { markers, errors };
+};
@@ -0,0 +1,329 @@
+import { findCategory, MARKER_COLORS, MarkerCategory } from "@/lib/categories";
+import { formatShot, shotAt, sourceTimecode } from "@/lib/edl";
+import { durationToTimecode, isRange, MARKER_STATUS_LABELS, markerOut } from "@/lib/markers";
+import { Marker, SortMode } from "@/lib/session";
+import { framesToTimecode, rateLabel } from "@/lib/timecode";
+
+import { ExportContext, xmlEscape as esc } from "@/lib/formats/common";
+
+/* ---------- Report PDF ---------- */
+
+export type ReportColumn =
+  | "index"
+  | "timecode"
+  | "duration"
+  | "category"
+  | "status"
+  | "source"
+  | "author"
+  | "comment";
+
+export type ReportTemplate = {
+  id: string;
+  name: string;
+  // vuoti = titolo della sessione / nome del reviewer del dispositivo
+  title: string;
+  reviewer: string;
+  // data URI dell'immagine
+  logo: string | null;
+  orientation: "portrait" | "landscape";
+  paper: "A4" | "Letter";
+  columns: ReportColumn[];
+  categoryChips: boolean;
+  groupByCategory: boolean;
+  // riepilogo AI su una pagina di copertina
+  summaryCover: boolean;
+};
+
+export const REPORT_COLUMNS: { id: ReportColumn; label: string; width?: number }[] = [
+  { id: "index", label: "#", width: 44 },
+  { id: "timecode", label: "Timecode", width: 105 },
+  { id: "duration", label: "Durata", width: 80 },
+  { id: "category", label: "Categoria", width: 96 },
+  { id: "status", label: "Stato", width: 64 },
+  { id: "source", label: "Sorgente", width: 150 },
+  { id: "author", label: "Autore", width: 90 },
+  { id: "comment", label: "Commento" },
+];
+
+export const DEFAULT_REPORT_TEMPLATE: ReportTemplate = {
+  id: "default",
+  name: "Standard",
+  title: "",
+  reviewer: "",
+  logo: null,
+  orientation: "portrait",
+  paper: "A4",
+  columns: ["index", "timecode", "duration", "category", "status", "source", "comment"],
+  categoryChips: true,
+  groupByCategory: false,
+  summaryCover: false,
+};
+
+// Punti tipografici (1/72"), per Print.printToFileAsync
+const PAPER_POINTS: Record<ReportTemplate["paper"], [number, number]> = {
+  A4: [595, 842],
+  Letter: [612, 792],
+};
+
+export const reportPageSize = (t: ReportTemplate) => {
+  const [w, h] = PAPER_POINTS[t.paper];
+  return t.orientation === "landscape" ? { width: h, height: w } : { width: w, height: h };
+};
+
+export const SORT_MODE_LABELS: Record<SortMode, string> = {
+  timecode: "per timecode",
+  created: "in ordine di cattura",
+};
+
+export type ReportOptions = {
+  sortMode: SortMode;
+  // reviewer del dispositivo, se il template non ne indica uno
+  reviewer: string;
+  exportedAt: Date;
+};
+
+const cell = (m: Marker, index: number, col: ReportColumn, ctx: ExportContext, t: ReportTemplate) => {
+  const { rate, categories, edl } = ctx;
+  switch (col) {
+    case "index":
+      return `#${String(index + 1).padStart(2, "0")}`;
+    case "timecode":
+      return isRange(m)
+        ? `${esc(framesToTimecode(m.frames, rate))}<br/>→ ${esc(framesToTimecode(markerOut(m), rate))}`
+        : esc(framesToTimecode(m.frames, rate));
+    case "duration":
+      return isRange(m) ? esc(durationToTimecode(m.duration, rate)) : "";
+    case "category": {
+      const cat = findCategory(categories, m.category);
+      if (!cat) return "";
+      const chip = t.categoryChips
+        ? `<span class="chip" style="background:${MARKER_COLORS[cat.color].hex}"></span>`
+        : "";
+      return `${chip}${esc(cat.label)}`;
+    }
+    case "status":
+      return m.status ? esc(MARKER_STATUS_LABELS[m.status]) : "";
+    case "source": {
+      const shot = shotAt(edl, m.frames);
+      return edl && shot
+        ? `${esc(formatShot(shot))}<br/>${esc(sourceTimecode(edl, shot, rate))}`
+        : "";
+    }
+    case "author":
+      return esc(m.author);
+    case "comment":
+      return esc(m.comment.trim());
+  }
+};
+
+// Gruppi nell'ordine delle categorie della sessione, "Senza categoria" in fondo
+const groupMarkers = (ordered: Marker[], categories: MarkerCategory[]) => {
+  const groups = categories
+    .map((c) => ({
+      category: c as MarkerCategory | null,
+      markers: ordered.filter((m) => m.category === c.id),
+    }))
+    .filter((g) => g.markers.length > 0);
+  const loose = ordered.filter((m) => !findCategory(categories, m.category));
+  if (loose.length) groups.push({ category: null, markers: loose });
+  return groups;
+};
+
+export const buildReportHtml = (ctx: ExportContext, t: ReportTemplate, options: ReportOptions) => {
+  const { markers, rate, startTC, categories, session, summary, edl } = ctx;
+  const ordered =
+    options.sortMode === "timecode" ? [...markers].sort((a, b) => a.frames - b.frames) : markers;
+  // la numerazione resta quella dell'elenco anche nei gruppi
+  const numberOf = new Map(ordered.map((m, i) => [m.id, i]));
+  const columns = REPORT_COLUMNS.filter(
+    (c) => t.columns.includes(c.id) && (c.id !== "source" || edl)
+  );
+
+  const title = t.title.trim() || session?.title || "Markers Export";
+  const reviewer = t.reviewer.trim() || options.reviewer.trim();
+  const details = [session?.project, session?.reel].filter(Boolean).join(" • ");
+  // locale del dispositivo, non più it-IT fisso
+  const exportedAt = new Intl.DateTimeFormat(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  }).format(options.exportedAt);
+  const logo = t.logo ? `<img class="logo" src="${esc(t.logo)}" />` : "";
+
+  const table = (list: Marker[]) => `
+    <table>
+      <thead>
+        <tr>${columns
+          .map((c) => `<th${c.width ? ` style="width:${c.width}px;"` : ""}>${c.label}</th>`)
+          .join("")}</tr>
+      </thead>
+      <tbody>${list
+        .map(
+          (m) =>
+            `<tr>${columns
+              .map((c) => `<td class="${c.id}">${cell(m, numberOf.get(m.id) ?? 0, c.id, ctx, t)}</td>`)
+              .join("")}</tr>`
+        )
+        .join("")}</tbody>
+    </table>`;
+
+  const body = t.groupByCategory
+    ? groupMarkers(ordered, categories)
+        .map((g) => {
+          const chip =
+            g.category && t.categoryChips
+              ? `<span class="chip" style="background:${MARKER_COLORS[g.category.color].hex}"></span>`
+              : "";
+          const label = g.category ? esc(g.category.label) : "Senza categoria";
+          const count = `<span class="count">${g.markers.length}</span>`;
+          return `<h2 class="group">${chip}${label} ${count}</h2>${table(g.markers)}`;
+        })
+        .join("")
+    : table(ordered);
+
+  const cover =
+    t.summaryCover && summary.trim()
+      ? `
+      <section class="cover">
+        ${logo}
+        <h1 class="cover-title">${esc(title)}</h1>
+        ${details ? `<div class="subtitle">${esc(details)}</div>` : ""}
+        <div class="subtitle">${reviewer ? `Reviewer: ${esc(reviewer)} • ` : ""}${esc(exportedAt)}</div>
+        <h2 class="group">Riepilogo</h2>
+        <div class="summary">${esc(summary.trim())}</div>
+      </section>`
+      : "";
+
+  const { width, height } = reportPageSize(t);
+
+  return `
+    <!doctype html>
+    <html>
+      <head>
+        <meta charset="utf-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+
+        <style>
+          @page { size: ${width}pt ${height}pt; margin: 22mm 14mm 18mm 14mm; }
+
+          body {
+            font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Arial, sans-serif;
+            color: #111;
+            font-size: 12px;
+          }
+
+          .header {
+            display: flex;
+            justify-content: space-between;
+            align-items: flex-end;
+            gap: 16px;
+            margin-bottom: 10px;
+          }
+          .title {
+            font-size: 16px;
+            font-weight: 800;
+            letter-spacing: .2px;
+            margin: 0;
+          }
+          .subtitle {
+            font-size: 11px;
+            color: #555;
+            margin-top: 4px;
+          }
+          .meta {
+            text-align: right;
+            font-size: 10.5px;
+            color: #555;
+            line-height: 1.25;
+          }
+          .logo { max-height: 48px; max-width: 160px; object-fit: contain; }
+
+          .cover { page-break-after: always; padding-top: 40mm; }
+          .cover .logo { max-height: 80px; max-width: 240px; margin-bottom: 24px; }
+          .cover-title { font-size: 26px; font-weight: 800; margin: 0; }
+          .summary { white-space: pre-wrap; line-height: 1.5; font-size: 12.5px; }
+
+          h2.group {
+            font-size: 13px;
+            font-weight: 800;
+            margin: 18px 0 6px;
+          }
+          h2.group .count { color: #888; font-weight: 700; }
+
+          table { width: 100%; border-collapse: collapse; table-layout: fixed; }
+          thead th {
+            background: #f2f2f2;
+            border-bottom: 1px solid #d8d8d8;
+            padding: 8px 8px;
+            font-weight: 800;
+            text-align: left;
+          }
+          tbody td {
+            border-bottom: 1px solid #e6e6e6;
+            padding: 8px 8px;
+            vertical-align: top;
+          }
+          tbody tr:nth-child(even) td { background: #fafafa; }
+
+          .index { white-space: nowrap; font-weight: 800; }
+          .timecode { white-space: nowrap; font-weight: 800; }
+          .duration { white-space: nowrap; color: #555; }
+          .category { white-space: nowrap; }
+          .status { white-space: nowrap; font-weight: 700; }
+          .source { color: #555; word-break: break-word; }
+          .author { color: #555; }
+          .chip {
+            display: inline-block;
+            width: 9px;
+            height: 9px;
+            border-radius: 50%;
+            margin-right: 6px;
+            border: 1px solid rgba(0,0,0,.15);
+            -webkit-print-color-adjust: exact;
+            print-color-adjust: exact;
+          }
+          .comment { width: auto; white-space: pre-wrap; word-break: break-word; }
+
+          tr { page-break-inside: avoid; }
+
+          .footer {
+            position: fixed;
+            bottom: -10mm;
+            left: 0;
+            right: 0;
+            font-size: 10px;
+            color: #666;
+            display: flex;
+            justify-content: space-between;
+            align-items: center;
+          }
+          .pagecount::after { content: "Pagina " counter(page) " / " counter(pages); }
+        </style>
+      </head>
+
+      <body>
+        ${cover}
+
+        <div class="header">
+          <div>
+            <h1 class="title">${esc(title)}</h1>
+            ${details ? `<div class="subtitle">${esc(details)}</div>` : ""}
+            <div class="subtitle">Ordinati ${SORT_MODE_LABELS[options.sortMode]} • Totale: ${ordered.length}</div>
+          </div>
+          <div class="meta">
+            ${cover ? "" : logo}
+            <div><b>FPS:</b> ${esc(rateLabel(rate))} • <b>Start:</b> ${esc(startTC)}</div>
+            ${reviewer ? `<div><b>Reviewer:</b> ${esc(reviewer)}</div>` : ""}
+            <div><b>Export:</b> ${esc(exportedAt)}</div>
+          </div>
+        </div>
+
+        ${body}
+
+        <div class="footer">
+          <div>${esc(title)}</div>
+          <div class="pagecount"></div>
+        </div>
+      </body>
+    </html>`;
+};
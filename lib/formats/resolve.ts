@@ -0,0 +1,56 @@
+import { findCategory, MarkerColor } from "@/lib/categories";
+import { framesToTimecode } from "@/lib/timecode";
+
+import { byTimecode, ExportContext, singleLine } from "@/lib/formats/common";
+
+/* ---------- DaVinci Resolve EDL con markers ---------- */
+
+// Resolve legge i marker della timeline da un EDL: ogni evento è un clip
+// fittizio di un frame seguito da una riga "locator"
+//   001  001      V     C        01:00:00:00 01:00:00:01 01:00:00:00 01:00:00:01
+//    |C:ResolveColorBlue |M:commento |D:1
+// dove |D: è la durata del marker in frame (minimo 1).
+
+export const RESOLVE_COLORS: Record<MarkerColor, string> = {
+  red: "ResolveColorRed",
+  green: "ResolveColorGreen",
+  blue: "ResolveColorBlue",
+  cyan: "ResolveColorCyan",
+  magenta: "ResolveColorFuchsia",
+  yellow: "ResolveColorYellow",
+  white: "ResolveColorCream",
+  black: "ResolveColorCocoa",
+};
+
+// Colore di default dei marker di Resolve
+const RESOLVE_DEFAULT_COLOR = RESOLVE_COLORS.blue;
+
+// "|" separa i campi della riga locator: nel commento diventa "/"
+const locatorText = (s: string) => singleLine(s).replace(/\|/g, "/");
+
+export const buildResolveEdl = ({ markers, rate, categories, session }: ExportContext) => {
+  const tc = (f: number) => framesToTimecode(f, rate);
+  const lines = [
+    `TITLE: ${locatorText(session?.title || "FrameMark")}`,
+    `FCM: ${rate.dropFrame ? "DROP FRAME" : "NON-DROP FRAME"}`,
+    "",
+  ];
+
+  byTimecode(markers).forEach((m, i) => {
+    const event = String(i + 1).padStart(3, "0");
+    const inTc = tc(m.frames);
+    const outTc = tc(m.frames + 1);
+    const cat = findCategory(categories, m.category);
+    const color = cat ? RESOLVE_COLORS[cat.color] : RESOLVE_DEFAULT_COLOR;
+    // senza commento: nome della categoria, poi numero del marker
+    const name = locatorText(m.comment) || cat?.label || `Marker ${i + 1}`;
+
+    lines.push(
+      `${event}  001      V     C        ${inTc} ${outTc} ${inTc} ${outTc}  `,
+      ` |C:${color} |M:${name} |D:${Math.max(1, m.duration)}`,
+      ""
+    );
+  });
+
+  return lines.join("\n");
+};
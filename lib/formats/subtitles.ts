@@ -0,0 +1,82 @@
+import { findCategory } from "@/lib/categories";
+import { framesToSeconds, timecodeToFrames } from "@/lib/timecode";
+
+import { byTimecode, ExportContext } from "@/lib/formats/common";
+
+/* ---------- SRT / WebVTT ---------- */
+
+export type SubtitleFormat = "srt" | "vtt";
+
+// Durata dei cue per i marker puntuali, se non impostata
+export const DEFAULT_CUE_SECONDS = 3;
+
+type Cue = { start: number; end: number; text: string };
+
+// "01:02:03,040" (SRT) / "01:02:03.040" (WebVTT)
+const cueTime = (seconds: number, format: SubtitleFormat) => {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const hh = Math.floor(ms / 3600000);
+  const mm = Math.floor(ms / 60000) % 60;
+  const ss = Math.floor(ms / 1000) % 60;
+  const p = (n: number, w = 2) => String(n).padStart(w, "0");
+  return `${p(hh)}:${p(mm)}:${p(ss)}${format === "srt" ? "," : "."}${p(ms % 1000, 3)}`;
+};
+
+// Una riga vuota chiude il cue in entrambi i formati; "-->" è riservato in WebVTT
+const cueText = (s: string) =>
+  s
+    .trim()
+    .replace(/\r\n?/g, "\n")
+    .replace(/\n{2,}/g, "\n")
+    .replace(/-->/g, "→");
+
+// WebVTT legge "&" e "<" come entità e tag; i player SRT interpretano <i>, <font>...
+// e non decodificano le entità, quindi lì le parentesi angolari si sostituiscono.
+const escapeCue = (s: string, format: SubtitleFormat) =>
+  format === "vtt"
+    ? s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+    : s.replace(/</g, "‹").replace(/>/g, "›");
+
+/**
+ * I tempi sono relativi allo start TC (00:00:00 = primo frame del video).
+ * Fine del cue: OUT dei marker a intervallo, altrimenti `defaultSeconds`.
+ * Marker sullo stesso frame diventano un solo cue su più righe; un cue che
+ * si sovrappone al successivo viene accorciato fino al suo inizio.
+ */
+export const buildSubtitles = (
+  { markers, rate, startTC, categories }: ExportContext,
+  format: SubtitleFormat,
+  defaultSeconds = DEFAULT_CUE_SECONDS
+) => {
+  const start = timecodeToFrames(startTC, rate);
+  const cues: Cue[] = [];
+
+  byTimecode(markers).forEach((m, i) => {
+    const cat = findCategory(categories, m.category);
+    const note = cueText(m.comment) || `Marker ${i + 1}`;
+    const text = cat ? `[${cat.label}] ${note}` : note;
+    const s = framesToSeconds(Math.max(0, m.frames - start), rate);
+    const e =
+      m.duration > 0
+        ? framesToSeconds(Math.max(0, m.frames + m.duration - start), rate)
+        : s + defaultSeconds;
+
+    const prev = cues[cues.length - 1];
+    if (prev && prev.start === s) {
+      prev.text += `\n${text}`;
+      prev.end = Math.max(prev.end, e);
+      return;
+    }
+    cues.push({ start: s, end: e, text });
+  });
+
+  cues.forEach((c, i) => {
+    const next = cues[i + 1];
+    if (next && c.end > next.start) c.end = next.start;
+  });
+
+  const body = cues
+    .map((c, i) => `${i + 1}\n${cueTime(c.start, format)} --> ${cueTime(c.end, format)}\n${escapeCue(c.text, format)}\n`)
+    .join("\n");
+  return format === "vtt" ? `WEBVTT\n\n${body}` : body;
+};
@@ -0,0 +1,29 @@
+import { findCategory } from "@/lib/categories";
+import { formatShot, shotAt, sourceTimecode } from "@/lib/edl";
+import { formatMarkerTime, MARKER_STATUS_LABELS } from "@/lib/markers";
+import { SortMode } from "@/lib/session";
+
+import { ExportContext } from "@/lib/formats/common";
+
+/* ---------- TXT (elenco leggibile, anche per gli appunti) ---------- */
+
+export const buildMarkersText = (ctx: ExportContext, sortMode: SortMode) => {
+  const { markers, rate, categories, edl } = ctx;
+  const ordered =
+    sortMode === "timecode"
+      ? [...markers].sort((a, b) => a.frames - b.frames)
+      : markers;
+
+  return ordered
+    .map((m, index) => {
+      const num = String(index + 1).padStart(2, "0"); // 01, 02, 03...
+      const tc = formatMarkerTime(m, rate);
+      const cat = findCategory(categories, m.category);
+      const status = m.status ? ` [${MARKER_STATUS_LABELS[m.status]}]` : "";
+      const shot = shotAt(edl, m.frames);
+      const src = edl && shot ? ` {${formatShot(shot)} @ ${sourceTimecode(edl, shot, rate)}}` : "";
+      const c = (m.comment || "").trim();
+      return `#${num} [${tc}]${cat ? ` [${cat.label}]` : ""}${src}${status} ${c}`.trimEnd();
+    })
+    .join("\n");
+};
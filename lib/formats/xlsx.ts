@@ -0,0 +1,281 @@
+import { findCategory, MARKER_COLOR_IDS, MARKER_COLORS, MarkerColor } from "@/lib/categories";
+import { formatShot, shotAt, sourceTimecode } from "@/lib/edl";
+import { durationToTimecode, isRange, MARKER_STATUS_LABELS, markerOut } from "@/lib/markers";
+import { SortMode } from "@/lib/session";
+import { framesToSeconds, framesToTimecode, rateLabel, timecodeToFrames } from "@/lib/timecode";
+import { buildZip } from "@/lib/zip";
+
+import { ExportContext, xmlEscape } from "@/lib/formats/common";
+
+/* ---------- Excel (XLSX, SpreadsheetML) ---------- */
+
+// Workbook minimo scritto a mano: stringhe inline, niente sharedStrings.
+// Excel, Numbers, Google Sheets e LibreOffice lo aprono senza avvisi.
+
+export const XLSX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+export const XLSX_UTI = "org.openxmlformats.spreadsheetml.sheet";
+
+export type XlsxOptions = {
+  sortMode: SortMode;
+  reviewer: string;
+  exportedAt: Date;
+};
+
+// Indici di cellXfs in styles.xml; i fill delle categorie seguono in fondo
+const STYLE = {
+  header: 1,
+  timecode: 2,
+  wrap: 3,
+  date: 4,
+  seconds: 5,
+  label: 6,
+  text: 7,
+} as const;
+const colorStyle = (color: MarkerColor) => 8 + MARKER_COLOR_IDS.indexOf(color);
+
+type Cell =
+  | { kind: "text"; value: string; style?: number }
+  | { kind: "number"; value: number; style?: number }
+  | { kind: "blank"; style: number }
+  | null;
+
+const text = (value: string, style: number = STYLE.text): Cell =>
+  value ? { kind: "text", value, style } : null;
+const num = (value: number, style?: number): Cell => ({ kind: "number", value, style });
+// cella vuota ma formattata (la seconda colonna delle intestazioni)
+const blank = (style: number): Cell => ({ kind: "blank", style });
+
+// "#RRGGBB" -> "FFRRGGBB" (ARGB, come lo vuole Excel)
+const argb = (hex: string) => `FF${hex.replace("#", "").toUpperCase()}`;
+
+// I caratteri di controllo non sono ammessi in XML 1.0
+const clean = (s: string) => xmlEscape(s.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, ""));
+
+// 0 -> A, 25 -> Z, 26 -> AA
+const columnName = (index: number): string =>
+  (index >= 26 ? columnName(Math.floor(index / 26) - 1) : "") +
+  String.fromCharCode(65 + (index % 26));
+
+// Numero seriale di Excel (giorni dal 1899-12-30), in ora locale
+const excelDate = (ms: number) => {
+  const d = new Date(ms);
+  return (ms - d.getTimezoneOffset() * 60000) / 86400000 + 25569;
+};
+
+const rowXml = (cells: Cell[], row: number) =>
+  `<row r="${row}">${cells
+    .map((c, i) => {
+      if (!c) return "";
+      const ref = `${columnName(i)}${row}`;
+      const s = c.style ? ` s="${c.style}"` : "";
+      if (c.kind === "blank") return `<c r="${ref}"${s}/>`;
+      return c.kind === "number"
+        ? `<c r="${ref}"${s}><v>${c.value}</v></c>`
+        : `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${clean(c.value)}</t></is></c>`;
+    })
+    .join("")}</row>`;
+
+const sheetXml = ({
+  rows,
+  widths,
+  frozenHeader,
+}: {
+  rows: Cell[][];
+  widths: number[];
+  frozenHeader: boolean;
+}) => {
+  const lastRef = `${columnName(widths.length - 1)}${rows.length}`;
+  const pane = frozenHeader
+    ? `<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/><selection pane="bottomLeft" activeCell="A2" sqref="A2"/>`
+    : "";
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<dimension ref="A1:${lastRef}"/>
+<sheetViews><sheetView workbookViewId="0">${pane}</sheetView></sheetViews>
+<sheetFormatPr defaultRowHeight="15"/>
+<cols>${widths
+    .map((w, i) => `<col min="${i + 1}" max="${i + 1}" width="${w}" customWidth="1"/>`)
+    .join("")}</cols>
+<sheetData>${rows.map((r, i) => rowXml(r, i + 1)).join("")}</sheetData>
+${frozenHeader && rows.length > 1 ? `<autoFilter ref="A1:${lastRef}"/>` : ""}
+</worksheet>`;
+};
+
+const stylesXml = () => {
+  const colorFonts = MARKER_COLOR_IDS.map(
+    (c) => `<font><sz val="11"/><color rgb="${argb(MARKER_COLORS[c].onColor)}"/><name val="Calibri"/></font>`
+  );
+  const colorFills = MARKER_COLOR_IDS.map(
+    (c) =>
+      `<fill><patternFill patternType="solid"><fgColor rgb="${argb(MARKER_COLORS[c].hex)}"/><bgColor indexed="64"/></patternFill></fill>`
+  );
+  const top = `<alignment vertical="top"/>`;
+  const xfs = [
+    `<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>`,
+    // header
+    `<xf numFmtId="0" fontId="1" fillId="2" borderId="1" xfId="0" applyFont="1" applyFill="1" applyBorder="1"><alignment vertical="center"/></xf>`,
+    // timecode: testo (numFmt 49 = "@") in monospace, così Excel non lo converte in ora
+    `<xf numFmtId="49" fontId="2" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1" applyAlignment="1"><alignment horizontal="center" vertical="top"/></xf>`,
+    `<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0" applyAlignment="1"><alignment vertical="top" wrapText="1"/></xf>`,
+    `<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyAlignment="1">${top}</xf>`,
+    `<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyAlignment="1">${top}</xf>`,
+    `<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1" applyAlignment="1">${top}</xf>`,
+    `<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0" applyAlignment="1">${top}</xf>`,
+    ...MARKER_COLOR_IDS.map(
+      (_, i) =>
+        `<xf numFmtId="0" fontId="${3 + i}" fillId="${3 + i}" borderId="0" xfId="0" applyFont="1" applyFill="1" applyAlignment="1">${top}</xf>`
+    ),
+  ];
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="2"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm:ss"/><numFmt numFmtId="165" formatCode="0.000"/></numFmts>
+<fonts count="${3 + colorFonts.length}"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font><font><sz val="11"/><name val="Courier New"/></font>${colorFonts.join("")}</fonts>
+<fills count="${3 + colorFills.length}"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill><fill><patternFill patternType="solid"><fgColor rgb="FFE9ECEF"/><bgColor indexed="64"/></patternFill></fill>${colorFills.join("")}</fills>
+<borders count="2"><border><left/><right/><top/><bottom/><diagonal/></border><border><left/><right/><top/><bottom style="thin"><color rgb="FF868E96"/></bottom><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="${xfs.length}">${xfs.join("")}</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+};
+
+const SHEETS = ["Marker", "Riepilogo"];
+
+const PACKAGE_PARTS = {
+  "[Content_Types].xml": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+${SHEETS.map(
+  (_, i) =>
+    `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+).join("\n")}
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`,
+  "_rels/.rels": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`,
+  "xl/workbook.xml": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<bookViews><workbookView/></bookViews>
+<sheets>${SHEETS.map((name, i) => `<sheet name="${name}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join("")}</sheets>
+</workbook>`,
+  "xl/_rels/workbook.xml.rels": `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${SHEETS.map(
+  (_, i) =>
+    `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+).join("\n")}
+<Relationship Id="rId${SHEETS.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`,
+};
+
+const SORT_LABELS: Record<SortMode, string> = {
+  timecode: "Timecode",
+  created: "Ordine di cattura",
+};
+
+export const buildXlsx = (ctx: ExportContext, options: XlsxOptions) => {
+  const { markers, rate, startTC, categories, session, summary, edl } = ctx;
+  const ordered =
+    options.sortMode === "timecode" ? [...markers].sort((a, b) => a.frames - b.frames) : markers;
+  const start = timecodeToFrames(startTC, rate);
+
+  /* Foglio 1: un marker per riga */
+
+  const columns: { label: string; width: number }[] = [
+    { label: "#", width: 6 },
+    { label: "Timecode", width: 14 },
+    { label: "TC OUT", width: 14 },
+    { label: "Durata", width: 14 },
+    { label: "Secondi", width: 11 },
+    { label: "Categoria", width: 16 },
+    { label: "Stato", width: 10 },
+    { label: "Commento", width: 60 },
+    { label: "Autore", width: 16 },
+    { label: "Catturato il", width: 20 },
+    ...(edl
+      ? [
+          { label: "Clip sorgente", width: 30 },
+          { label: "TC sorgente", width: 14 },
+        ]
+      : []),
+  ];
+
+  const markerRows = ordered.map((m, i): Cell[] => {
+    const cat = findCategory(categories, m.category);
+    const shot = shotAt(edl, m.frames);
+    return [
+      num(i + 1, STYLE.text),
+      text(framesToTimecode(m.frames, rate), STYLE.timecode),
+      isRange(m) ? text(framesToTimecode(markerOut(m), rate), STYLE.timecode) : null,
+      isRange(m) ? text(durationToTimecode(m.duration, rate), STYLE.timecode) : null,
+      num(framesToSeconds(m.frames - start, rate), STYLE.seconds),
+      cat ? text(cat.label, colorStyle(cat.color)) : null,
+      m.status ? text(MARKER_STATUS_LABELS[m.status]) : null,
+      text(m.comment.trim(), STYLE.wrap),
+      text(m.author),
+      m.capturedAt ? num(excelDate(m.capturedAt), STYLE.date) : null,
+      ...(edl
+        ? [
+            shot ? text(formatShot(shot)) : null,
+            shot ? text(sourceTimecode(edl, shot, rate), STYLE.timecode) : null,
+          ]
+        : []),
+    ];
+  });
+
+  const markersSheet = sheetXml({
+    rows: [columns.map((c) => text(c.label, STYLE.header)), ...markerRows],
+    widths: columns.map((c) => c.width),
+    frozenHeader: true,
+  });
+
+  /* Foglio 2: metadati della sessione, conteggi per categoria e riepilogo */
+
+  const reviewer = options.reviewer.trim();
+  const info: [string, Cell][] = [
+    ["Sessione", text(session?.title ?? "")],
+    ["Progetto", text(session?.project ?? "")],
+    ["Rullo", text(session?.reel ?? "")],
+    ["Frame rate", text(rateLabel(rate))],
+    ["Start TC", text(startTC, STYLE.timecode)],
+    ["Marker", num(markers.length, STYLE.text)],
+    ["Da fare", num(markers.filter((m) => m.status === "open").length, STYLE.text)],
+    ["Fatti", num(markers.filter((m) => m.status === "done").length, STYLE.text)],
+    ["EDL", text(edl ? edl.title || edl.fileName : "")],
+    ["Reviewer", text(reviewer)],
+    ["Ordinamento", text(SORT_LABELS[options.sortMode])],
+    ["Esportato il", num(excelDate(options.exportedAt.getTime()), STYLE.date)],
+  ];
+
+  const used = categories
+    .map((c) => ({ c, count: markers.filter((m) => m.category === c.id).length }))
+    .filter((x) => x.count > 0);
+  const loose = markers.filter((m) => !findCategory(categories, m.category)).length;
+
+  const summaryRows: Cell[][] = [
+    [text("Sessione", STYLE.header), blank(STYLE.header)],
+    ...info.map(([label, value]): Cell[] => [text(label, STYLE.label), value]),
+    [],
+    [text("Categoria", STYLE.header), text("Marker", STYLE.header)],
+    ...used.map(({ c, count }): Cell[] => [text(c.label, colorStyle(c.color)), num(count, STYLE.text)]),
+    ...(loose ? [[text("Senza categoria"), num(loose, STYLE.text)]] : []),
+    ...(summary.trim()
+      ? [[], [text("Riepilogo", STYLE.header), blank(STYLE.header)], [null, text(summary.trim(), STYLE.wrap)]]
+      : []),
+  ];
+
+  const summarySheet = sheetXml({ rows: summaryRows, widths: [18, 80], frozenHeader: false });
+
+  return buildZip(
+    [
+      ...Object.entries(PACKAGE_PARTS).map(([name, data]) => ({ name, data })),
+      { name: "xl/styles.xml", data: stylesXml() },
+      { name: "xl/worksheets/sheet1.xml", data: markersSheet },
+      { name: "xl/worksheets/sheet2.xml", data: summarySheet },
+    ],
+    options.exportedAt
+  );
+};
@@ -0,0 +1,166 @@
+import * as FileSystem from "expo-file-system/legacy";
+import * as Print from "expo-print";
+
+import { fileExists, nextFreeFileName } from "@/lib/files";
+import { sanitizeFileName, uniqueName } from "@/lib/filenames";
+import { ExportContext } from "@/lib/formats/common";
+import { buildCsv, DEFAULT_CSV_OPTIONS } from "@/lib/formats/csv";
+import { buildFramemarkJson, FRAMEMARK_EXTENSION } from "@/lib/formats/framemark";
+import { buildReportHtml, reportPageSize, ReportTemplate } from "@/lib/formats/report";
+import { buildMarkersText } from "@/lib/formats/text";
+import { loadSession, SessionMeta, SessionSnapshot } from "@/lib/session";
+import { rateLabel } from "@/lib/timecode";
+import { base64ToBytes, buildZip, bytesToBase64, ZipEntry } from "@/lib/zip";
+
+/* ---------- Export di tutta la libreria (ZIP) ---------- */
+
+export type LibraryExportFormat = "json" | "txt" | "pdf" | "csv";
+
+export const LIBRARY_EXPORT_FORMATS: { id: LibraryExportFormat; label: string }[] = [
+  { id: "json", label: "FrameMark (JSON)" },
+  { id: "txt", label: "Testo (TXT)" },
+  { id: "pdf", label: "Report PDF" },
+  { id: "csv", label: "CSV" },
+];
+
+export type LibraryExportOptions = {
+  formats: LibraryExportFormat[];
+  reviewer: string;
+  // template del report PDF (l'ultimo usato)
+  template: ReportTemplate;
+  // chiamata prima di ogni sessione e alla fine, con done === total
+  onProgress?: (done: number, total: number, title: string) => void;
+};
+
+const ARCHIVE_FORMAT = "framemark-archive";
+const ARCHIVE_VERSION = 1;
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// "framemark_2026-03-14_1805", senza estensione
+const archiveName = (d: Date) =>
+  `framemark_${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}_${pad(d.getHours())}${pad(d.getMinutes())}`;
+
+const contextFor = (meta: SessionMeta, snapshot: SessionSnapshot): ExportContext => ({
+  markers: snapshot.markers,
+  rate: snapshot.rate,
+  startTC: snapshot.startTC,
+  categories: snapshot.categories,
+  session: meta,
+  summary: snapshot.summary,
+  edl: snapshot.edl,
+});
+
+// printToFileAsync scrive in cache: si rilegge il PDF e si butta il temporaneo
+const renderPdf = async (html: string, template: ReportTemplate) => {
+  const { uri } = await Print.printToFileAsync({ html, ...reportPageSize(template) });
+  const b64 = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+  await FileSystem.deleteAsync(uri, { idempotent: true });
+  return base64ToBytes(b64);
+};
+
+// Lascia respirare la UI tra una sessione e l'altra, così il progresso si aggiorna
+const nextTick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Una cartella per sessione con i formati scelti, più manifest.json.
+ * Le sessioni che non si riescono a leggere o esportare (es. PDF non
+ * generato) finiscono nel manifest come saltate invece di interrompere
+ * l'export.
+ */
+export const exportLibraryZip = async (sessions: SessionMeta[], options: LibraryExportOptions) => {
+  const { formats, reviewer, template, onProgress } = options;
+  const exportedAt = new Date();
+  const entries: ZipEntry[] = [];
+  const folders = new Set<string>();
+  const exported: object[] = [];
+  const skipped: { id: string; title: string; reason: string }[] = [];
+
+  for (const [index, meta] of sessions.entries()) {
+    onProgress?.(index, sessions.length, meta.title);
+    await nextTick();
+
+    const snapshot = await loadSession(meta.id);
+    if (!snapshot) {
+      skipped.push({ id: meta.id, title: meta.title, reason: "non leggibile" });
+      continue;
+    }
+
+    const folder = uniqueName(sanitizeFileName(meta.title, "sessione"), folders);
+    const ctx = contextFor(meta, snapshot);
+    const files: ZipEntry[] = [];
+
+    try {
+      if (formats.includes("json")) {
+        files.push({ name: `${folder}.${FRAMEMARK_EXTENSION}`, data: buildFramemarkJson(ctx) });
+      }
+      if (formats.includes("txt")) {
+        files.push({ name: `${folder}.txt`, data: buildMarkersText(ctx, snapshot.sortMode) });
+      }
+      if (formats.includes("csv")) {
+        // con le preferenze CSV salvate nella sessione
+        const csv = snapshot.csv ?? DEFAULT_CSV_OPTIONS;
+        files.push({
+          name: `${folder}.${csv.delimiter === "\t" ? "tsv" : "csv"}`,
+          data: buildCsv(ctx, csv),
+        });
+      }
+      if (formats.includes("pdf") && snapshot.markers.length > 0) {
+        const html = buildReportHtml(ctx, template, {
+          sortMode: snapshot.sortMode,
+          reviewer,
+          exportedAt,
+        });
+        files.push({ name: `${folder}.pdf`, data: await renderPdf(html, template) });
+      }
+    } catch {
+      // es. printToFileAsync fallito: la sessione resta fuori, le altre proseguono
+      skipped.push({ id: meta.id, title: meta.title, reason: "export non riuscito" });
+      continue;
+    }
+
+    entries.push(...files.map((f) => ({ ...f, name: `${folder}/${f.name}` })));
+    exported.push({
+      id: meta.id,
+      title: meta.title,
+      project: meta.project,
+      reel: meta.reel,
+      fps: rateLabel(snapshot.rate),
+      startTC: snapshot.startTC,
+      markerCount: snapshot.markers.length,
+      archived: meta.archived,
+      createdAt: new Date(meta.createdAt).toISOString(),
+      updatedAt: new Date(meta.updatedAt).toISOString(),
+      folder,
+      files: files.map((f) => f.name),
+    });
+  }
+
+  onProgress?.(sessions.length, sessions.length, "");
+  await nextTick();
+
+  const manifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    reviewer,
+    formats,
+    sessions: exported,
+    skipped,
+  };
+  const zip = buildZip(
+    [{ name: "manifest.json", data: JSON.stringify(manifest, null, 2) }, ...entries],
+    exportedAt
+  );
+
+  // un archivio precedente con lo stesso nome non viene sovrascritto
+  const dir = FileSystem.documentDirectory ?? "";
+  const fileName = await nextFreeFileName(archiveName(exportedAt), "zip", (name) =>
+    fileExists(dir + name)
+  );
+  const uri = dir + fileName;
+  await FileSystem.writeAsStringAsync(uri, bytesToBase64(zip), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  return { uri, fileName, exported: exported.length, skipped };
+};
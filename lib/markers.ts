@@ -0,0 +1,25 @@
+import { Marker, MarkerStatus } from "@/lib/session";
+import { FrameRate, framesToTimecode } from "@/lib/timecode";
+
+/* ---------- Marker ranges ---------- */
+
+export const MARKER_STATUS_LABELS: Record<MarkerStatus, string> = {
+  open: "Da fare",
+  done: "Fatto",
+};
+
+export const isRange = (m: Marker) => m.duration > 0;
+
+// Frame di uscita (esclusivo, come l'OUT di un NLE)
+export const markerOut = (m: Marker) => m.frames + m.duration;
+
+// Le durate si leggono sempre non-drop: 00:00:05:00 = 5 secondi di TC
+export const durationToTimecode = (frames: number, rate: FrameRate) =>
+  framesToTimecode(frames, { ...rate, dropFrame: false });
+
+// "01:00:00:00" oppure "01:00:00:00 - 01:00:05:12 (00:00:05:12)"
+export const formatMarkerTime = (m: Marker, rate: FrameRate) => {
+  const tcIn = framesToTimecode(m.frames, rate);
+  if (!isRange(m)) return tcIn;
+  return `${tcIn} - ${framesToTimecode(markerOut(m), rate)} (${durationToTimecode(m.duration, rate)})`;
+};
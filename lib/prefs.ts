@@ -0,0 +1,187 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { ThemeName } from "@/constants/palette";
+import { DEFAULT_FILENAME_TEMPLATE } from "@/lib/filenames";
+import { DEFAULT_REPORT_TEMPLATE, ReportTemplate } from "@/lib/formats/report";
+import { DEFAULT_CUE_SECONDS } from "@/lib/formats/subtitles";
+
+/* ---------- Preferenze del dispositivo (non legate alla sessione) ---------- */
+
+// Nome di chi prende le note: autore dei marker e "reviewer" negli export
+const REVIEWER_KEY = "framemark:reviewer";
+
+export const getReviewer = async () => {
+  try {
+    return (await AsyncStorage.getItem(REVIEWER_KEY)) ?? "";
+  } catch {
+    return "";
+  }
+};
+
+export const setReviewer = async (name: string) => {
+  try {
+    await AsyncStorage.setItem(REVIEWER_KEY, name);
+  } catch {
+    // ignore
+  }
+};
+
+// Tema dell'app, condiviso da tutte le schermate
+const THEME_KEY = "framemark:theme";
+
+export const getTheme = async (): Promise<ThemeName> => {
+  try {
+    return (await AsyncStorage.getItem(THEME_KEY)) === "light" ? "light" : "dark";
+  } catch {
+    return "dark";
+  }
+};
+
+export const setTheme = async (theme: ThemeName) => {
+  try {
+    await AsyncStorage.setItem(THEME_KEY, theme);
+  } catch {
+    // ignore
+  }
+};
+
+// Tutorial spotlight: si mostra finché non è stato completato o saltato
+const TOUR_DONE_KEY = "framemark:tutorialDone";
+
+export const getTourDone = async () => {
+  try {
+    return (await AsyncStorage.getItem(TOUR_DONE_KEY)) === "1";
+  } catch {
+    // se AsyncStorage fallisce, meglio non riproporlo a ogni apertura
+    return true;
+  }
+};
+
+export const setTourDone = async (done: boolean) => {
+  try {
+    if (done) await AsyncStorage.setItem(TOUR_DONE_KEY, "1");
+    else await AsyncStorage.removeItem(TOUR_DONE_KEY);
+  } catch {
+    // ignore
+  }
+};
+
+// Durata dei sottotitoli per i marker puntuali (export SRT / WebVTT)
+const CUE_SECONDS_KEY = "framemark:cueSeconds";
+
+export const getCueSeconds = async () => {
+  try {
+    const v = Number(await AsyncStorage.getItem(CUE_SECONDS_KEY));
+    return Number.isFinite(v) && v > 0 ? v : DEFAULT_CUE_SECONDS;
+  } catch {
+    return DEFAULT_CUE_SECONDS;
+  }
+};
+
+export const setCueSeconds = async (seconds: number) => {
+  try {
+    await AsyncStorage.setItem(CUE_SECONDS_KEY, String(seconds));
+  } catch {
+    // ignore
+  }
+};
+
+// Template del report PDF, con nome; l'ultimo usato viene riproposto
+const REPORT_TEMPLATES_KEY = "framemark:reportTemplates";
+const REPORT_TEMPLATE_KEY = "framemark:reportTemplate";
+
+export const getReportTemplates = async (): Promise<ReportTemplate[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(REPORT_TEMPLATES_KEY);
+    const list = raw ? JSON.parse(raw) : null;
+    if (Array.isArray(list) && list.length > 0) {
+      // campi aggiunti dopo il salvataggio prendono il default
+      return list.map((t) => ({ ...DEFAULT_REPORT_TEMPLATE, ...t }));
+    }
+  } catch {
+    // dato corrotto: si riparte dal template standard
+  }
+  return [DEFAULT_REPORT_TEMPLATE];
+};
+
+export const saveReportTemplates = async (list: ReportTemplate[]) => {
+  try {
+    await AsyncStorage.setItem(REPORT_TEMPLATES_KEY, JSON.stringify(list));
+  } catch {
+    // ignore
+  }
+};
+
+export const getLastReportTemplateId = async () => {
+  try {
+    return await AsyncStorage.getItem(REPORT_TEMPLATE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setLastReportTemplateId = async (id: string) => {
+  try {
+    await AsyncStorage.setItem(REPORT_TEMPLATE_KEY, id);
+  } catch {
+    // ignore
+  }
+};
+
+// Template dei nomi file proposti negli export ("markers_{fps}")
+const FILENAME_TEMPLATE_KEY = "framemark:fileNameTemplate";
+
+export const getFileNameTemplate = async () => {
+  try {
+    return (await AsyncStorage.getItem(FILENAME_TEMPLATE_KEY)) || DEFAULT_FILENAME_TEMPLATE;
+  } catch {
+    return DEFAULT_FILENAME_TEMPLATE;
+  }
+};
+
+export const setFileNameTemplate = async (template: string) => {
+  try {
+    await AsyncStorage.setItem(FILENAME_TEMPLATE_KEY, template);
+  } catch {
+    // ignore
+  }
+};
+
+// File già esistente: true = "-2" automatico, false = si chiede se sovrascrivere
+const AUTO_RENAME_KEY = "framemark:autoRename";
+
+export const getAutoRename = async () => {
+  try {
+    return (await AsyncStorage.getItem(AUTO_RENAME_KEY)) === "1";
+  } catch {
+    return false;
+  }
+};
+
+export const setAutoRename = async (value: boolean) => {
+  try {
+    await AsyncStorage.setItem(AUTO_RENAME_KEY, value ? "1" : "0");
+  } catch {
+    // ignore
+  }
+};
+
+// Android: cartella SAF in cui scrivere gli export invece di condividerli
+const EXPORT_DIRECTORY_KEY = "framemark:exportDirectory";
+
+export const getExportDirectory = async () => {
+  try {
+    return await AsyncStorage.getItem(EXPORT_DIRECTORY_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setExportDirectory = async (uri: string | null) => {
+  try {
+    if (uri) await AsyncStorage.setItem(EXPORT_DIRECTORY_KEY, uri);
+    else await AsyncStorage.removeItem(EXPORT_DIRECTORY_KEY);
+  } catch {
+    // ignore
+  }
+};
@@ -0,0 +1,398 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { DEFAULT_CATEGORIES, MarkerCategory } from "@/lib/categories";
+import { EdlData } from "@/lib/edl";
+import { CsvOptions } from "@/lib/formats/csv";
+import {
+  conformTimecode,
+  convertFrames,
+  DEFAULT_RATE,
+  FrameRate,
+  framesForElapsed,
+  framesToTimecode,
+  supportsDropFrame,
+  timecodeToFrames,
+} from "@/lib/timecode";
+
+export type Marker = {
+  id: number;
+  // IN del marker; per i marker puntuali duration è 0
+  frames: number;
+  duration: number;
+  comment: string;
+  // id di una MarkerCategory della sessione; null = nessuna categoria
+  category: string | null;
+  // null = semplice nota, senza follow-up
+  status: MarkerStatus | null;
+  // chi ha catturato il marker e quando (ms epoch); vuoti per i marker importati
+  author: string;
+  capturedAt: number | null;
+};
+
+// Note da risolvere in montaggio: "open" da fare, "done" fatta
+export type MarkerStatus = "open" | "done";
+
+export type SortMode = "created" | "timecode";
+
+// "point": un tocco = un marker; "range": primo tocco IN, secondo tocco OUT.
+// Tenere premuto il pulsante crea un intervallo in entrambe le modalità.
+export type CaptureMode = "point" | "range";
+
+// Compensazione del tempo di reazione, sottratta a ogni cattura
+export type PreRoll = {
+  value: number;
+  unit: "frames" | "seconds";
+};
+
+// Stato del clock: se running, il TC corrente si ricava da baseFrames +
+// frame trascorsi da startedAt (wall-clock, ms epoch).
+export type ClockState = {
+  running: boolean;
+  startedAt: number;
+  baseFrames: number;
+};
+
+export type SessionSnapshot = {
+  version: 1;
+  markers: Marker[];
+  frames: number;
+  startTC: string;
+  rate: FrameRate;
+  summary: string;
+  sortMode: SortMode;
+  categories: MarkerCategory[];
+  captureMode: CaptureMode;
+  preRoll: PreRoll;
+  // IN in attesa del secondo tocco (modalità "range")
+  pendingIn: number | null;
+  // EDL del montaggio, per sapere in che inquadratura cade ogni marker
+  edl: EdlData | null;
+  // ultima configurazione dell'export CSV; null = default
+  csv: CsvOptions | null;
+  clock: ClockState;
+  savedAt: number;
+};
+
+// Voce della libreria: rate/startTC/markerCount sono copiati dallo snapshot a
+// ogni salvataggio, così la lista non deve caricare tutte le sessioni.
+export type SessionMeta = {
+  id: string;
+  title: string;
+  project: string;
+  reel: string;
+  rate: FrameRate;
+  startTC: string;
+  createdAt: number;
+  updatedAt: number;
+  markerCount: number;
+  archived: boolean;
+};
+
+export type SessionFields = Pick<SessionMeta, "title" | "project" | "reel">;
+
+// v1 salvava una sola sessione implicita sotto questa chiave
+const LEGACY_SESSION_KEY = "framemark:session";
+const SESSIONS_INDEX_KEY = "framemark:sessions";
+const ACTIVE_SESSION_KEY = "framemark:activeSession";
+const sessionKey = (id: string) => `framemark:session:${id}`;
+
+export const SESSION_SAVE_DEBOUNCE_MS = 400;
+
+const DEFAULT_START_TC = "01:00:00:00";
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === "object" && !Array.isArray(v);
+
+// Lo storage può contenere di tutto (versioni vecchie, dati corrotti)
+const isSnapshot = (v: unknown): v is SessionSnapshot =>
+  isRecord(v) &&
+  v.version === 1 &&
+  Array.isArray(v.markers) &&
+  typeof v.frames === "number" &&
+  typeof v.startTC === "string" &&
+  isRecord(v.rate) &&
+  typeof v.rate.num === "number" &&
+  typeof v.rate.den === "number" &&
+  isRecord(v.clock) &&
+  typeof v.clock.running === "boolean";
+
+const newSessionId = () =>
+  `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+export const emptySnapshot = (
+  rate: FrameRate = DEFAULT_RATE,
+  startTC = DEFAULT_START_TC
+): SessionSnapshot => {
+  const frames = timecodeToFrames(startTC, rate);
+  return {
+    version: 1,
+    markers: [],
+    frames,
+    startTC,
+    rate,
+    summary: "",
+    sortMode: "timecode",
+    categories: DEFAULT_CATEGORIES,
+    captureMode: "point",
+    preRoll: { value: 0, unit: "seconds" },
+    pendingIn: null,
+    edl: null,
+    csv: null,
+    clock: { running: false, startedAt: 0, baseFrames: frames },
+    savedAt: Date.now(),
+  };
+};
+
+// Cambio di frame rate: lo start TC resta lo stesso "numero", ma valido per il
+// nuovo timebase. Clock, marker, IN in attesa ed EDL restano alla stessa
+// distanza reale dallo start TC: TC ed export non si spostano col nuovo rate.
+export const convertSnapshotRate = (s: SessionSnapshot, rate: FrameRate): SessionSnapshot => {
+  const startTC = conformTimecode(s.startTC, rate);
+  const oldStart = timecodeToFrames(s.startTC, s.rate);
+  const newStart = timecodeToFrames(startTC, rate);
+  const length = (f: number) => convertFrames(f, s.rate, rate);
+  const position = (f: number) => newStart + length(f - oldStart);
+  // il TC sorgente è un'etichetta della clip: si tiene il numero
+  const sourceTc = (f: number) =>
+    timecodeToFrames(conformTimecode(framesToTimecode(f, s.rate), rate), rate);
+
+  return {
+    ...s,
+    rate,
+    startTC,
+    frames: position(s.frames),
+    clock: { ...s.clock, baseFrames: position(s.clock.baseFrames) },
+    markers: s.markers.map((m) => ({ ...m, frames: position(m.frames), duration: length(m.duration) })),
+    pendingIn: s.pendingIn === null ? null : position(s.pendingIn),
+    edl: s.edl
+      ? {
+          ...s.edl,
+          dropFrame: s.edl.dropFrame && supportsDropFrame(rate),
+          events: s.edl.events.map((ev) => {
+            const srcIn = sourceTc(ev.srcIn);
+            return {
+              ...ev,
+              recIn: position(ev.recIn),
+              recOut: position(ev.recOut),
+              srcIn,
+              srcOut: srcIn + length(ev.srcOut - ev.srcIn),
+            };
+          }),
+        }
+      : null,
+  };
+};
+
+/* ---------- Storage ---------- */
+
+const readJson = async (key: string) => {
+  try {
+    const raw = await AsyncStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    // dato corrotto o storage non disponibile
+    return null;
+  }
+};
+
+const writeJson = async (key: string, value: unknown) => {
+  try {
+    await AsyncStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // ignore: il prossimo salvataggio riproverà
+  }
+};
+
+// Le modifiche all'indice sono read-modify-write: vanno serializzate, altrimenti
+// il salvataggio della sessione aperta e un'azione della libreria si sovrascrivono.
+let indexQueue: Promise<unknown> = Promise.resolve();
+
+const withIndex = <T>(fn: (list: SessionMeta[]) => Promise<[SessionMeta[], T]>) => {
+  const run = indexQueue.then(async () => {
+    const list = await readIndex();
+    const [next, result] = await fn(list);
+    if (next !== list) await writeJson(SESSIONS_INDEX_KEY, next);
+    return result;
+  });
+  indexQueue = run.catch(() => {});
+  return run;
+};
+
+const readIndex = async (): Promise<SessionMeta[]> => {
+  const list = await readJson(SESSIONS_INDEX_KEY);
+  if (Array.isArray(list)) return list;
+
+  // Primo avvio dopo l'aggiornamento: la sessione singola diventa la prima della libreria
+  const legacy = await readJson(LEGACY_SESSION_KEY);
+  if (!isSnapshot(legacy)) return [];
+
+  const now = Date.now();
+  const meta: SessionMeta = {
+    id: newSessionId(),
+    title: "Sessione 1",
+    project: "",
+    reel: "",
+    rate: legacy.rate,
+    startTC: legacy.startTC,
+    createdAt: legacy.savedAt || now,
+    updatedAt: now,
+    markerCount: legacy.markers.length,
+    archived: false,
+  };
+  await writeJson(sessionKey(meta.id), normalizeSnapshot(legacy));
+  await writeJson(SESSIONS_INDEX_KEY, [meta]);
+  await writeJson(ACTIVE_SESSION_KEY, meta.id);
+  try {
+    await AsyncStorage.removeItem(LEGACY_SESSION_KEY);
+  } catch {
+    // ignore
+  }
+  return [meta];
+};
+
+export const listSessions = () => withIndex(async (list) => [list, list]);
+
+export const getSessionMeta = async (id: string) =>
+  (await listSessions()).find((s) => s.id === id) ?? null;
+
+export const getActiveSessionId = async (): Promise<string | null> => {
+  const id = await readJson(ACTIVE_SESSION_KEY);
+  return typeof id === "string" ? id : null;
+};
+
+export const setActiveSessionId = (id: string) => writeJson(ACTIVE_SESSION_KEY, id);
+
+// Campi aggiunti dopo la prima versione dello snapshot
+const normalizeSnapshot = (v: SessionSnapshot): SessionSnapshot => ({
+  ...v,
+  markers: v.markers.map((m) => ({
+    ...m,
+    duration: m.duration ?? 0,
+    category: m.category ?? null,
+    status: m.status ?? null,
+    author: m.author ?? "",
+    capturedAt: m.capturedAt ?? null,
+  })),
+  categories: Array.isArray(v.categories) ? v.categories : DEFAULT_CATEGORIES,
+  captureMode: v.captureMode ?? "point",
+  preRoll: v.preRoll ?? { value: 0, unit: "seconds" },
+  pendingIn: v.pendingIn ?? null,
+  edl: v.edl ?? null,
+  csv: v.csv ?? null,
+});
+
+export const loadSession = async (id: string): Promise<SessionSnapshot | null> => {
+  const v = await readJson(sessionKey(id));
+  return isSnapshot(v) ? normalizeSnapshot(v) : null;
+};
+
+export const saveSession = async (id: string, snapshot: SessionSnapshot) => {
+  await writeJson(sessionKey(id), snapshot);
+  await withIndex(async (list) => {
+    if (!list.some((s) => s.id === id)) return [list, undefined];
+    const next = list.map((s) =>
+      s.id === id
+        ? {
+            ...s,
+            rate: snapshot.rate,
+            startTC: snapshot.startTC,
+            markerCount: snapshot.markers.length,
+            updatedAt: snapshot.savedAt,
+          }
+        : s
+    );
+    return [next, undefined];
+  });
+};
+
+// `base` fa da modello: fps e start TC, più le preferenze di export se ha un id.
+// `snapshot` permette di creare una sessione già popolata (import da file).
+export const createSession = (
+  fields: SessionFields,
+  base?: Pick<SessionMeta, "rate" | "startTC"> & { id?: string },
+  initial?: SessionSnapshot
+) =>
+  withIndex(async (list) => {
+    const template = base?.id ? await loadSession(base.id) : null;
+    const snapshot = initial ?? {
+      ...emptySnapshot(base?.rate, base?.startTC),
+      csv: template?.csv ?? null,
+    };
+    const now = Date.now();
+    const meta: SessionMeta = {
+      id: newSessionId(),
+      ...fields,
+      rate: snapshot.rate,
+      startTC: snapshot.startTC,
+      createdAt: now,
+      updatedAt: now,
+      markerCount: snapshot.markers.length,
+      archived: false,
+    };
+    await writeJson(sessionKey(meta.id), snapshot);
+    return [[meta, ...list], meta];
+  });
+
+export const updateSessionMeta = (
+  id: string,
+  patch: Partial<SessionFields & Pick<SessionMeta, "archived">>
+) =>
+  withIndex(async (list) => [
+    list.map((s) => (s.id === id ? { ...s, ...patch, updatedAt: Date.now() } : s)),
+    undefined,
+  ]);
+
+export const duplicateSession = (id: string) =>
+  withIndex(async (list) => {
+    const source = list.find((s) => s.id === id);
+    if (!source) return [list, null];
+
+    const snapshot = (await loadSession(id)) ?? emptySnapshot(source.rate, source.startTC);
+    const now = Date.now();
+    const copy: SessionMeta = {
+      ...source,
+      id: newSessionId(),
+      title: `${source.title} (copia)`,
+      createdAt: now,
+      updatedAt: now,
+      archived: false,
+    };
+    // la copia parte ferma, sul TC in cui si trovava l'originale
+    const frames = snapshot.clock.running
+      ? snapshot.clock.baseFrames +
+        framesForElapsed(now - snapshot.clock.startedAt, snapshot.rate)
+      : snapshot.frames;
+    await writeJson(sessionKey(copy.id), {
+      ...snapshot,
+      frames,
+      clock: { running: false, startedAt: 0, baseFrames: frames },
+      savedAt: now,
+    });
+    return [[copy, ...list], copy];
+  });
+
+export const deleteSession = (id: string) =>
+  withIndex(async (list) => {
+    try {
+      await AsyncStorage.removeItem(sessionKey(id));
+    } catch {
+      // ignore
+    }
+    return [list.filter((s) => s.id !== id), undefined];
+  });
+
+// Sessione da aprire: quella richiesta, poi l'ultima attiva, poi la più
+// recente non archiviata; se la libreria è vuota ne crea una nuova.
+export const resolveSession = async (requested?: string | null) => {
+  const list = await listSessions();
+  const active = await getActiveSessionId();
+  const found =
+    list.find((s) => s.id === requested) ??
+    list.find((s) => s.id === active) ??
+    [...list].filter((s) => !s.archived).sort((a, b) => b.updatedAt - a.updatedAt)[0];
+
+  const meta =
+    found ?? (await createSession({ title: `Sessione ${list.length + 1}`, project: "", reel: "" }));
+  await setActiveSessionId(meta.id);
+  return meta;
+};
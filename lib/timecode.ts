@@ -0,0 +1,200 @@
+/* ---------- Frame rate ---------- */
+
+// Rate come frazione esatta (24000/1001, 25/1, ...): niente drift sui fractional.
+// dropFrame vale solo per i timebase 30/60 con denominatore 1001.
+export type FrameRate = {
+  num: number;
+  den: number;
+  dropFrame: boolean;
+};
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+export const makeRate = (num: number, den = 1, dropFrame = false): FrameRate => {
+  const g = gcd(num, den) || 1;
+  return { num: num / g, den: den / g, dropFrame };
+};
+
+export const DEFAULT_RATE = makeRate(24);
+
+export const RATE_PRESETS: FrameRate[] = [
+  makeRate(24000, 1001),
+  makeRate(24),
+  makeRate(25),
+  makeRate(30000, 1001),
+  makeRate(30000, 1001, true),
+  makeRate(30),
+  makeRate(48000, 1001),
+  makeRate(48),
+  makeRate(50),
+  makeRate(60000, 1001),
+  makeRate(60000, 1001, true),
+  makeRate(60),
+  makeRate(100),
+  makeRate(120000, 1001),
+  makeRate(120),
+];
+
+export const rateToFps = (rate: FrameRate) => rate.num / rate.den;
+
+// Timebase nominale intero usato per contare i frame nel TC (23.976 -> 24)
+export const timebase = (rate: FrameRate) => Math.max(1, Math.round(rate.num / rate.den));
+
+export const supportsDropFrame = (rate: FrameRate) =>
+  rate.den === 1001 && (timebase(rate) === 30 || timebase(rate) === 60);
+
+export const sameRate = (a: FrameRate, b: FrameRate) =>
+  a.num * b.den === b.num * a.den && a.dropFrame === b.dropFrame;
+
+// "23.976", "29.97", "25"
+export const rateFpsText = (rate: FrameRate) =>
+  rate.den === 1 ? String(rate.num) : String(Number(rateToFps(rate).toFixed(3)));
+
+export const rateLabel = (rate: FrameRate) =>
+  `${rateFpsText(rate)}${rate.dropFrame ? " DF" : ""}`;
+
+// Il TC conta frame interi: serve un timebase intero (25/1) o la forma NTSC
+// n*1000/1001. Rate come 12.5 non hanno un conteggio TC definito.
+export const isCountableRate = (rate: FrameRate) =>
+  rate.den === 1 || (rate.den === 1001 && rate.num % 1000 === 0);
+
+export const isSupportedRate = (rate: FrameRate) => {
+  const fps = rateToFps(rate);
+  return fps >= 1 && fps <= 240 && isCountableRate(rate);
+};
+
+// Accetta "24000/1001", "23.976", "25" e un eventuale suffisso "DF" o "NDF".
+// I decimali vicini a un rate NTSC vengono agganciati a n*1000/1001.
+export const parseRate = (input: string): FrameRate | null => {
+  const raw = input.trim().toUpperCase();
+  // "NDF" termina anch'esso con "DF"
+  const dropFrame = /(^|[^N])DF$/.test(raw);
+  const body = raw.replace(/\s*N?DF$/, "").replace(",", ".");
+
+  let rate: FrameRate | null = null;
+  const frac = body.match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (frac) {
+    const num = Number(frac[1]);
+    const den = Number(frac[2]);
+    if (num > 0 && den > 0) rate = makeRate(num, den);
+  } else if (/^\d+(\.\d+)?$/.test(body)) {
+    const x = Number(body);
+    const whole = Math.round(x);
+    const ntsc = Math.round(x * 1.001);
+    if (Math.abs(x - whole) < 1e-9) {
+      rate = makeRate(whole);
+    } else if (Math.abs((ntsc * 1000) / 1001 - x) < 0.0015) {
+      rate = makeRate(ntsc * 1000, 1001);
+    }
+  }
+
+  if (!rate || !isSupportedRate(rate)) return null;
+  if (dropFrame && !supportsDropFrame(rate)) return null;
+  return { ...rate, dropFrame };
+};
+
+// Frame trascorsi dopo `elapsedMs` di tempo reale, in aritmetica intera
+export const framesForElapsed = (elapsedMs: number, rate: FrameRate) =>
+  Math.floor((elapsedMs * rate.num) / (rate.den * 1000));
+
+// Stesso istante reale espresso in frame di un altro rate
+export const convertFrames = (frames: number, from: FrameRate, to: FrameRate) =>
+  Math.round((frames * from.den * to.num) / (from.num * to.den));
+
+/* ---------- Timecode helpers ---------- */
+
+// Drop-frame (SMPTE 12M): 29.97 salta i numeri 00-01, 59.94 salta 00-03,
+// all'inizio di ogni minuto tranne i minuti multipli di 10.
+export const dropFramesPerMinute = (fps: number) => Math.round(fps / 15);
+
+const pad2 = (n: number) => n.toString().padStart(2, "0");
+
+export const formatTimecode = (
+  hh: number,
+  mm: number,
+  ss: number,
+  ff: number,
+  dropFrame = false
+) => `${pad2(hh)}:${pad2(mm)}:${pad2(ss)}${dropFrame ? ";" : ":"}${pad2(ff)}`;
+
+// Accetta sia ":" sia ";" (o ".") come separatore dei frame
+export const parseTimecode = (tc: string) => {
+  const p = tc.trim().split(/[:;.]/).map(Number);
+  if (p.length !== 4 || p.some(isNaN)) return null;
+  const [hh, mm, ss, ff] = p;
+  return { hh, mm, ss, ff };
+};
+
+export const isDroppedFrameNumber = (
+  mm: number,
+  ss: number,
+  ff: number,
+  fps: number
+) => ss === 0 && mm % 10 !== 0 && ff < dropFramesPerMinute(fps);
+
+export const isValidTimecode = (tc: string, rate: FrameRate) => {
+  const p = parseTimecode(tc);
+  if (!p) return false;
+  const fps = timebase(rate);
+  const { hh, mm, ss, ff } = p;
+  if (hh < 0 || mm < 0 || mm > 59 || ss < 0 || ss > 59 || ff < 0 || ff >= fps) {
+    return false;
+  }
+  return !(rate.dropFrame && isDroppedFrameNumber(mm, ss, ff, fps));
+};
+
+export const framesToTimecode = (frames: number, rate: FrameRate) => {
+  const fps = timebase(rate);
+  let f = Math.max(0, Math.floor(frames));
+
+  if (rate.dropFrame) {
+    const d = dropFramesPerMinute(fps);
+    const perMinute = fps * 60 - d;
+    const perTenMinutes = fps * 600 - d * 9;
+    const tens = Math.floor(f / perTenMinutes);
+    const rem = f % perTenMinutes;
+    f += d * 9 * tens + (rem > d ? d * Math.floor((rem - d) / perMinute) : 0);
+  }
+
+  const ff = f % fps;
+  const totalSeconds = Math.floor(f / fps);
+  const ss = totalSeconds % 60;
+  const totalMinutes = Math.floor(totalSeconds / 60);
+  const mm = totalMinutes % 60;
+  const hh = Math.floor(totalMinutes / 60);
+
+  return formatTimecode(hh, mm, ss, ff, rate.dropFrame);
+};
+
+export const timecodeToFrames = (tc: string, rate: FrameRate) => {
+  const p = parseTimecode(tc);
+  if (!p) return 0;
+  const fps = timebase(rate);
+  const { hh, mm, ss, ff } = p;
+  const nominal = (hh * 3600 + mm * 60 + ss) * fps + ff;
+  if (!rate.dropFrame) return nominal;
+
+  const totalMinutes = hh * 60 + mm;
+  const dropped =
+    dropFramesPerMinute(fps) * (totalMinutes - Math.floor(totalMinutes / 10));
+  return nominal - dropped;
+};
+
+// Riporta un TC su un valore valido per il timebase (frame clamp, frame saltati
+// in drop-frame spostati al primo numero esistente) con il separatore giusto.
+export const conformTimecode = (tc: string, rate: FrameRate) => {
+  const fps = timebase(rate);
+  const p = parseTimecode(tc);
+  if (!p) return formatTimecode(0, 0, 0, 0, rate.dropFrame);
+  const { hh, mm, ss } = p;
+  let ff = Math.min(Math.max(0, p.ff), fps - 1);
+  if (rate.dropFrame && isDroppedFrameNumber(mm, ss, ff, fps)) {
+    ff = dropFramesPerMinute(fps);
+  }
+  return formatTimecode(hh, mm, ss, ff, rate.dropFrame);
+};
+
+export const framesToSeconds = (frames: number, rate: FrameRate) =>
+  (frames * rate.den) / rate.num;
+export const secondsToFrames = (seconds: number, rate: FrameRate) =>
+  Math.round((seconds * rate.num) / rate.den);